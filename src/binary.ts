@@ -0,0 +1,23 @@
+// Column layout for binary and BCD clocks. Binary shows each unit as one
+// number; BCD (binary-coded decimal) splits it into a tens and a ones
+// column, each only as tall as its largest digit needs.
+
+export type BinaryMode = "binary" | "bcd";
+export type BinaryUnit = "hour" | "minute" | "second";
+
+/** LEDs per column for `unit`, most significant column first. */
+export function binaryColumns(unit: BinaryUnit, mode: BinaryMode, hour12: boolean): number[] {
+  if (mode === "binary") return [unit === "hour" ? (hour12 ? 4 : 5) : 6];
+  // tens of hours reach 1 (12 h) or 2 (24 h), tens of minutes / seconds 5
+  return [unit === "hour" ? (hour12 ? 1 : 2) : 3, 4];
+}
+
+/** The number each column shows for `value`. */
+export function binaryColumnValues(value: number, mode: BinaryMode): number[] {
+  return mode === "binary" ? [value] : [Math.floor(value / 10), value % 10];
+}
+
+/** `width` bits of `value`, most significant first (top LED first). */
+export function toBits(value: number, width: number): boolean[] {
+  return Array.from({ length: width }, (_, i) => ((value >> (width - 1 - i)) & 1) === 1);
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { fetchCalendarEvents, groupAgenda, CalendarConnection, CalendarEvent } from "./calendarEvents";
+
+// calendar.get_events responses keyed by entity id, as Home Assistant returns them
+const FIXTURES = {
+  "calendar.family": {
+    events: [
+      { start: "2025-10-21T18:00:00+02:00", end: "2025-10-21T19:30:00+02:00", summary: "Choir" },
+      { start: "2025-10-20", end: "2025-10-23", summary: "Autumn break" },
+      { start: "2025-10-20T22:00:00+02:00", end: "2025-10-21T06:00:00+02:00", summary: "Night train" },
+    ],
+  },
+  "calendar.work": {
+    events: [
+      { start: "2025-10-21", end: "2025-10-22", summary: "Team day", location: "Office" },
+      { start: "2025-10-21T09:00:00+02:00", end: "2025-10-21T10:00:00+02:00", summary: "Standup" },
+      { start: "2025-10-21T16:00:00Z", end: "2025-10-21T16:30:00Z", summary: "Call" },
+      { start: "2025-10-24", end: "2025-10-24", summary: "Release" },
+    ],
+  },
+};
+
+function fakeConnection(response: Record<string, { events: object[] }> = FIXTURES) {
+  const messages: Record<string, unknown>[] = [];
+  const connection: CalendarConnection = {
+    async sendMessagePromise<T>(message: Record<string, unknown>) {
+      messages.push(message);
+      return { response } as T;
+    },
+  };
+  return { connection, messages };
+}
+
+const RANGE_START = new Date("2025-10-20T00:00:00Z");
+const RANGE_END = new Date("2025-10-27T00:00:00Z");
+
+async function fixtureEvents(): Promise<CalendarEvent[]> {
+  const { connection } = fakeConnection();
+  return fetchCalendarEvents(connection, ["calendar.family", "calendar.work"], RANGE_START, RANGE_END);
+}
+
+// "day: summary" per item, "<" on the first day of the event and ">" on its last
+function outline(days: ReturnType<typeof groupAgenda>): string[] {
+  return days.flatMap((day) =>
+    day.items.map(({ event, first, last }) => `${day.key}: ${event.summary}${first ? " <" : ""}${last ? " >" : ""}`)
+  );
+}
+
+describe("fetchCalendarEvents", () => {
+  it("asks for every calendar in one get_events call", async () => {
+    const { connection, messages } = fakeConnection();
+    await fetchCalendarEvents(connection, ["calendar.family", "calendar.work"], RANGE_START, RANGE_END);
+    expect(messages).toEqual([
+      {
+        type: "call_service",
+        domain: "calendar",
+        service: "get_events",
+        target: { entity_id: ["calendar.family", "calendar.work"] },
+        service_data: { start_date_time: "2025-10-20T00:00:00.000Z", end_date_time: "2025-10-27T00:00:00.000Z" },
+        return_response: true,
+      },
+    ]);
+  });
+
+  it("does not call the service without calendars", async () => {
+    const { connection, messages } = fakeConnection();
+    expect(await fetchCalendarEvents(connection, [], RANGE_START, RANGE_END)).toEqual([]);
+    expect(messages).toEqual([]);
+  });
+
+  it("reads all-day events as UTC midnights with an exclusive end", async () => {
+    const events = await fixtureEvents();
+    const autumnBreak = events.find((e) => e.summary === "Autumn break")!;
+    expect(autumnBreak).toMatchObject({
+      calendar: "calendar.family",
+      allDay: true,
+      start: new Date("2025-10-20T00:00:00Z"),
+      end: new Date("2025-10-23T00:00:00Z"),
+    });
+    // a zero-length all-day event still covers its day
+    expect(events.find((e) => e.summary === "Release")!.end).toEqual(new Date("2025-10-25T00:00:00Z"));
+  });
+
+  it("keeps the offset of timed events", async () => {
+    const events = await fixtureEvents();
+    expect(events.find((e) => e.summary === "Standup")).toMatchObject({
+      allDay: false,
+      start: new Date("2025-10-21T07:00:00Z"),
+      end: new Date("2025-10-21T08:00:00Z"),
+    });
+  });
+
+  it("sorts by start, all-day first, then by summary across calendars", async () => {
+    const events = await fixtureEvents();
+    expect(events.map((e) => e.summary)).toEqual([
+      "Autumn break",
+      "Night train",
+      "Team day",
+      "Standup",
+      // both at 16:00 UTC
+      "Call",
+      "Choir",
+      "Release",
+    ]);
+  });
+
+  it("skips calendars missing from the response", async () => {
+    const { connection } = fakeConnection({ "calendar.work": FIXTURES["calendar.work"] });
+    const events = await fetchCalendarEvents(connection, ["calendar.gone", "calendar.work"], RANGE_START, RANGE_END);
+    expect(events.every((e) => e.calendar === "calendar.work")).toBe(true);
+    expect(events).toHaveLength(4);
+  });
+});
+
+describe("groupAgenda", () => {
+  const options = { timeZone: "Europe/Berlin", now: new Date("2025-10-20T08:00:00Z"), maxDays: 7, maxEvents: 20 };
+
+  it("shows multi-day events on every day they cover, all-day entries first", async () => {
+    expect(outline(groupAgenda(await fixtureEvents(), options))).toEqual([
+      "2025-10-20: Autumn break <",
+      "2025-10-20: Night train <",
+      "2025-10-21: Autumn break",
+      "2025-10-21: Team day < >",
+      "2025-10-21: Night train >",
+      "2025-10-21: Standup < >",
+      "2025-10-21: Call < >",
+      "2025-10-21: Choir < >",
+      "2025-10-22: Autumn break >",
+      "2025-10-24: Release < >",
+    ]);
+  });
+
+  it("splits timed events by the days of the agenda's timezone", async () => {
+    const events = await fixtureEvents();
+    const tokyo = outline(groupAgenda(events, { ...options, timeZone: "Asia/Tokyo" }));
+    // 22:00-06:00 in Berlin is 05:00-13:00 in Tokyo, a single day
+    expect(tokyo).toContain("2025-10-21: Night train < >");
+    // 18:00 in Berlin is 01:00 the next day in Tokyo
+    expect(tokyo).toContain("2025-10-22: Choir < >");
+  });
+
+  it("keeps all-day events on their date in far-off timezones", async () => {
+    const events = (await fixtureEvents()).filter((e) => e.summary === "Team day");
+    for (const timeZone of ["Pacific/Kiritimati", "Pacific/Pago_Pago", "UTC"]) {
+      expect(outline(groupAgenda(events, { ...options, timeZone }))).toEqual(["2025-10-21: Team day < >"]);
+    }
+  });
+
+  it("starts at today in the agenda's timezone and drops what already ended", async () => {
+    const events = await fixtureEvents();
+    // 23:30 UTC on the 21st is already the 22nd in Kiritimati (+14)
+    const now = new Date("2025-10-21T23:30:00Z");
+    expect(outline(groupAgenda(events, { ...options, now, timeZone: "UTC" }))).toEqual([
+      "2025-10-21: Autumn break",
+      "2025-10-21: Team day < >",
+      "2025-10-22: Autumn break >",
+      "2025-10-24: Release < >",
+    ]);
+    expect(outline(groupAgenda(events, { ...options, now, timeZone: "Pacific/Kiritimati" }))).toEqual([
+      "2025-10-22: Autumn break >",
+      "2025-10-24: Release < >",
+    ]);
+  });
+
+  it("does not spill an event ending at midnight into the next day", () => {
+    const event: CalendarEvent = {
+      calendar: "calendar.family",
+      summary: "Party",
+      allDay: false,
+      start: new Date("2025-10-20T20:00:00Z"),
+      end: new Date("2025-10-21T00:00:00Z"),
+    };
+    expect(outline(groupAgenda([event], { ...options, timeZone: "UTC" }))).toEqual(["2025-10-20: Party < >"]);
+  });
+
+  it("limits the agenda by days and by events", async () => {
+    const events = await fixtureEvents();
+    expect(outline(groupAgenda(events, { ...options, maxDays: 1 }))).toEqual([
+      "2025-10-20: Autumn break <",
+      "2025-10-20: Night train <",
+    ]);
+    expect(groupAgenda(events, { ...options, maxEvents: 2 }).flatMap((d) => d.items.map((i) => i.event.summary))).toEqual([
+      "Autumn break",
+      "Night train",
+      "Autumn break",
+      "Night train",
+      "Autumn break",
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+// Upcoming events from Home Assistant calendar entities, fetched with the
+// calendar.get_events service and laid out as an agenda of days.
+import { parseTimestampValue } from "./entityTime";
+import { getZonedParts } from "./timezone";
+
+// The slice of home-assistant-js-websocket's Connection used here, small
+// enough for a fake connection to return fixture events.
+export interface CalendarConnection {
+  sendMessagePromise<T>(message: Record<string, unknown>): Promise<T>;
+}
+
+// event as calendar.get_events returns it: dates for all-day events, ISO
+// date-times with an offset otherwise; all-day ends are exclusive
+interface RawCalendarEvent {
+  start: string;
+  end: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+}
+
+interface GetEventsResponse {
+  response?: Record<string, { events?: RawCalendarEvent[] }>;
+}
+
+export interface CalendarEvent {
+  calendar: string; // entity id the event came from
+  summary: string;
+  description?: string;
+  location?: string;
+  allDay: boolean;
+  // all-day events: UTC midnight of their dates, so the date reads the same in every timezone
+  start: Date;
+  end: Date;
+}
+
+export interface AgendaItem {
+  event: CalendarEvent;
+  first: boolean; // the event starts on this day
+  last: boolean; // the event ends on this day
+}
+
+export interface AgendaDay {
+  key: string; // YYYY-MM-DD
+  date: Date; // UTC midnight of the day, format it with timeZone "UTC"
+  items: AgendaItem[];
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 86_400_000;
+
+function parseEvent(raw: RawCalendarEvent, calendar: string, now: Date): CalendarEvent | null {
+  const allDay = DATE_ONLY.test(raw.start);
+  const start = parseTimestampValue(raw.start, "UTC", now);
+  const end = parseTimestampValue(raw.end, "UTC", now) ?? start;
+  if (!start || !end) return null;
+  return {
+    calendar,
+    summary: raw.summary || "",
+    description: raw.description || undefined,
+    location: raw.location || undefined,
+    allDay,
+    start,
+    // a zero-length all-day event still covers its day
+    end: allDay && end.getTime() <= start.getTime() ? new Date(start.getTime() + DAY_MS) : end,
+  };
+}
+
+/**
+ * Events of `entityIds` overlapping `start` to `end`, sorted by start. One
+ * call covers every calendar; calendars missing from the response (removed,
+ * unavailable) contribute nothing rather than failing the whole agenda.
+ */
+export async function fetchCalendarEvents(
+  connection: CalendarConnection,
+  entityIds: string[],
+  start: Date,
+  end: Date
+): Promise<CalendarEvent[]> {
+  if (entityIds.length === 0) return [];
+  const result = await connection.sendMessagePromise<GetEventsResponse>({
+    type: "call_service",
+    domain: "calendar",
+    service: "get_events",
+    target: { entity_id: entityIds },
+    service_data: { start_date_time: start.toISOString(), end_date_time: end.toISOString() },
+    return_response: true,
+  });
+  const events: CalendarEvent[] = [];
+  for (const calendar of entityIds) {
+    for (const raw of result.response?.[calendar]?.events || []) {
+      const event = parseEvent(raw, calendar, start);
+      if (event) events.push(event);
+    }
+  }
+  return events.sort(compareEvents);
+}
+
+function compareEvents(a: CalendarEvent, b: CalendarEvent): number {
+  return a.start.getTime() - b.start.getTime() || Number(b.allDay) - Number(a.allDay) || a.summary.localeCompare(b.summary);
+}
+
+function dayKey(date: Date, timeZone: string | undefined): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function keyToDate(key: string): Date {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+// first and last day (inclusive) an event covers in `timeZone`
+function eventDays(event: CalendarEvent, timeZone: string | undefined): [string, string] {
+  if (event.allDay) return [dayKey(event.start, "UTC"), dayKey(new Date(event.end.getTime() - DAY_MS), "UTC")];
+  // an event ending at midnight doesn't spill into the next day
+  const last = event.end.getTime() > event.start.getTime() ? new Date(event.end.getTime() - 1) : event.end;
+  return [dayKey(event.start, timeZone), dayKey(last, timeZone)];
+}
+
+/**
+ * Groups `events` into days from today (in `timeZone`) onwards. Events that
+ * already ended are dropped, multi-day events appear on each day they cover
+ * within `maxDays`, and only the first `maxEvents` events are kept.
+ */
+export function groupAgenda(
+  events: CalendarEvent[],
+  options: { timeZone: string | undefined; now: Date; maxDays: number; maxEvents: number }
+): AgendaDay[] {
+  const today = dayKey(options.now, options.timeZone);
+  const lastDay = dayKey(new Date(keyToDate(today).getTime() + (Math.max(1, options.maxDays) - 1) * DAY_MS), "UTC");
+  const days = new Map<string, AgendaItem[]>();
+  let count = 0;
+  for (const event of [...events].sort(compareEvents)) {
+    if (count >= options.maxEvents) break;
+    const [first, last] = eventDays(event, options.timeZone);
+    const ended = event.allDay ? last < today : event.end.getTime() <= options.now.getTime();
+    if (ended || first > lastDay) continue;
+    count++;
+    // keys are YYYY-MM-DD, so string order is date order
+    for (let t = keyToDate(first < today ? today : first).getTime(); ; t += DAY_MS) {
+      const key = dayKey(new Date(t), "UTC");
+      if (key > last || key > lastDay) break;
+      if (!days.has(key)) days.set(key, []);
+      days.get(key)!.push({ event, first: key === first, last: key === last });
+    }
+  }
+  return Array.from(days.keys()).sort().map((key) => ({
+    key,
+    date: keyToDate(key),
+    // all-day entries above timed ones; the sort is stable, so otherwise by start
+    items: (days.get(key) || []).sort((a, b) => Number(b.event.allDay) - Number(a.event.allDay)),
+  }));
+}
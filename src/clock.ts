@@ -0,0 +1,197 @@
+// Shared time source for every component on the page. A single timer is
+// aligned to real second / minute boundaries so all clocks tick together,
+// and only wakes as often as the finest-grained subscriber needs.
+
+export type ClockUnit = "second" | "minute" | "hour" | "day";
+
+// "browser" trusts the device clock, "home-assistant" applies the measured
+// offset to the Home Assistant server (see serverTime.ts)
+export type TimeSource = "browser" | "home-assistant";
+
+export interface ClockTick {
+  now: Date;
+  /** true when the tick follows a wall-clock jump, sleep or a hidden tab resuming */
+  resync: boolean;
+}
+
+export type ClockListener = (tick: ClockTick) => void;
+
+interface Subscriber {
+  unit: ClockUnit;
+  source: TimeSource;
+  timezone?: string;
+  listener: ClockListener;
+  lastKey: string | number;
+}
+
+// how far wall time may disagree with monotonic time (or a timer may fire late)
+// before we treat it as a jump rather than ordinary timer jitter
+const JUMP_TOLERANCE_MS = 1500;
+// server offset changes smaller than this are measurement noise, not worth a resync
+const OFFSET_RESYNC_MS = 250;
+
+const subscribers = new Set<Subscriber>();
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+let timer: ReturnType<typeof setTimeout> | null = null;
+let scheduledFor = 0;
+let lastWall = 0;
+let lastMono = 0;
+let serverOffsetMs = 0;
+
+function offsetFor(source: TimeSource): number {
+  return source === "home-assistant" ? serverOffsetMs : 0;
+}
+
+export function clockNow(source: TimeSource = "browser"): Date {
+  return new Date(Date.now() + offsetFor(source));
+}
+
+/** Milliseconds the Home Assistant server is ahead of this device (negative when behind). */
+export function getServerOffset(): number {
+  return serverOffsetMs;
+}
+
+/**
+ * Updates the server offset applied to "home-assistant" subscribers. A change
+ * beyond measurement noise resyncs them immediately so hands and cards snap
+ * to the corrected time.
+ */
+export function setServerOffset(offsetMs: number) {
+  const changed = Math.abs(offsetMs - serverOffsetMs) > OFFSET_RESYNC_MS;
+  serverOffsetMs = offsetMs;
+  if (!changed) return;
+  let affected = false;
+  subscribers.forEach((sub) => {
+    if (sub.source === "home-assistant") affected = true;
+  });
+  if (affected) run(true, "home-assistant");
+}
+
+function dayKey(now: Date, timezone: string | undefined): string {
+  const cacheKey = timezone || "";
+  let fmt = dayFormatters.get(cacheKey);
+  if (!fmt) {
+    try {
+      fmt = new Intl.DateTimeFormat("en-CA", {
+        timeZone: timezone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+      });
+    } catch {
+      // unknown timezone, fall back to the system zone
+      fmt = new Intl.DateTimeFormat("en-CA", {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+      });
+    }
+    dayFormatters.set(cacheKey, fmt);
+  }
+  return fmt.format(now);
+}
+
+function unitKey(sub: Subscriber, now: Date): string | number {
+  const ms = now.getTime();
+  if (sub.unit === "second") return Math.floor(ms / 1000);
+  // every zone in use today has a whole-minute offset, so UTC minutes line up
+  if (sub.unit === "minute") return Math.floor(ms / 60_000);
+  // UTC hours; half-hour zones tick at :30 local, fine for "3 hours ago"
+  if (sub.unit === "hour") return Math.floor(ms / 3_600_000);
+  return dayKey(now, sub.timezone);
+}
+
+function monotonic(): number {
+  return typeof performance !== "undefined" ? performance.now() : Date.now();
+}
+
+// `only` limits a forced resync to subscribers of one source
+function run(resync = false, only?: TimeSource) {
+  // forced runs (resume, offset change) happen between timer fires
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const wall = Date.now();
+  const mono = monotonic();
+  // wall clock moved differently to monotonic time: NTP step, manual change or sleep
+  if (lastWall && Math.abs(wall - lastWall - (mono - lastMono)) > JUMP_TOLERANCE_MS) resync = true;
+  // timer fired far too late: the tab was throttled in the background
+  if (scheduledFor && wall - scheduledFor > JUMP_TOLERANCE_MS) resync = true;
+  lastWall = wall;
+  lastMono = mono;
+  // copy so listeners may unsubscribe while we iterate
+  for (const sub of Array.from(subscribers)) {
+    const now = new Date(wall + offsetFor(sub.source));
+    const key = unitKey(sub, now);
+    const forced = resync && (!only || sub.source === only);
+    if (!forced && key === sub.lastKey) continue;
+    sub.lastKey = key;
+    sub.listener({ now, resync: forced });
+  }
+  schedule();
+}
+
+function schedule() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  if (subscribers.size === 0) return;
+  const wall = Date.now();
+  // earliest boundary across subscribers, each source has its own notion of "now"
+  let next = Infinity;
+  subscribers.forEach((sub) => {
+    const step = sub.unit === "second" ? 1000 : sub.unit === "hour" ? 3_600_000 : 60_000;
+    const now = wall + offsetFor(sub.source);
+    next = Math.min(next, wall + step - (now % step));
+  });
+  scheduledFor = next;
+  timer = setTimeout(() => run(), scheduledFor - wall);
+}
+
+function handleResume() {
+  if (typeof document !== "undefined" && document.visibilityState === "hidden") return;
+  run(true);
+}
+
+function attachListeners() {
+  if (typeof window === "undefined") return;
+  document.addEventListener("visibilitychange", handleResume);
+  window.addEventListener("pageshow", handleResume);
+  window.addEventListener("online", handleResume);
+}
+
+function detachListeners() {
+  if (typeof window === "undefined") return;
+  document.removeEventListener("visibilitychange", handleResume);
+  window.removeEventListener("pageshow", handleResume);
+  window.removeEventListener("online", handleResume);
+}
+
+/**
+ * Subscribe to the shared clock. The listener fires whenever the given unit
+ * rolls over (for "day", midnight in `timezone`), and on every resync.
+ * Returns an unsubscribe function.
+ */
+export function subscribeClock(
+  unit: ClockUnit,
+  listener: ClockListener,
+  timezone?: string,
+  source: TimeSource = "browser"
+): () => void {
+  const sub: Subscriber = { unit, source, timezone, listener, lastKey: "" };
+  sub.lastKey = unitKey(sub, clockNow(source));
+  if (subscribers.size === 0) {
+    lastWall = Date.now();
+    lastMono = monotonic();
+    attachListeners();
+  }
+  subscribers.add(sub);
+  schedule();
+  return () => {
+    subscribers.delete(sub);
+    if (subscribers.size === 0) {
+      detachListeners();
+      lastWall = 0;
+      scheduledFor = 0;
+    }
+    schedule();
+  };
+}
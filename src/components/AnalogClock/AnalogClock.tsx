@@ -1,5 +1,28 @@
-import React, { useMemo } from "react";
-import { getLocale } from "../../helpers";
+import React, { useEffect, useMemo, useState } from "react";
+import { css, keyframes } from "@emotion/react";
+import { clockNow, subscribeClock, TimeSource } from "../../clock";
+import { formatDigits, NumberingSystem } from "../../format";
+import { getTimezoneOffset, getZonedParts } from "../../timezone";
+
+const sweep = keyframes`
+  from { transform: rotate(0deg); }
+  to { transform: rotate(360deg); }
+`;
+
+// Hands only move through these animations, any container rendering
+// AnalogClockPrivate must include them in its styles
+export const analogHandAnimations = (smoothSeconds?: boolean) => css`
+  .hour-hand {
+    animation: ${sweep} 43200s linear infinite;
+  }
+  .minute-hand {
+    animation: ${sweep} 3600s linear infinite;
+  }
+  .second-hand {
+    animation: ${sweep} 60s ${smoothSeconds ? "linear" : "steps(60, end)"}
+      infinite;
+  }
+`;
 
 export interface AnalogClockPrivateProps {
   showSecondHand?: boolean;
@@ -18,7 +41,11 @@ export interface AnalogClockPrivateProps {
   minuteHandLength?: number;
   secondHandLength?: number;
   timezone?: string; // IANA timezone or 'user-settings'
+  timeSource?: TimeSource;
   locale?: string;
+  numberingSystem?: NumberingSystem; // digits for the "numbers" labels, undefined -> locale default
+  complication?: React.ReactNode; // svg content centred on 0,0, drawn under the hands
+  complicationPosition?: "top" | "bottom";
 }
 
 export const AnalogClockPrivate: React.FC<AnalogClockPrivateProps> = ({
@@ -38,7 +65,11 @@ export const AnalogClockPrivate: React.FC<AnalogClockPrivateProps> = ({
   minuteHandLength = 100,
   secondHandLength = 120,
   timezone = "user-settings",
+  timeSource = "browser",
   locale,
+  numberingSystem,
+  complication,
+  complicationPosition = "bottom",
 }) => {
   // Geometric constants for full usage of 300x300 viewBox
   const FRAME_RADIUS = 145; // circle nearly touching edges (leave slight padding)
@@ -47,6 +78,25 @@ export const AnalogClockPrivate: React.FC<AnalogClockPrivateProps> = ({
   const FIVE_MARKER_INNER = FRAME_RADIUS - 20;
   const FIVE_MARKER_OUTER = FRAME_RADIUS - 5;
   const HOUR_LABEL_RADIUS = FRAME_RADIUS - 35;
+  // between the centre and the 12 / 6 labels
+  const COMPLICATION_OFFSET = FRAME_RADIUS * 0.45;
+
+  // Hands are driven by CSS animations; bump this after a clock jump, a
+  // background tab resuming or a DST change so the delays are recomputed
+  const [syncKey, setSyncKey] = useState(0);
+  useEffect(() => {
+    let offset = getTimezoneOffset(clockNow(timeSource), timezone);
+    return subscribeClock(
+      "minute",
+      ({ now, resync }) => {
+        const nextOffset = getTimezoneOffset(now, timezone);
+        if (resync || nextOffset !== offset) setSyncKey((k) => k + 1);
+        offset = nextOffset;
+      },
+      timezone,
+      timeSource
+    );
+  }, [timezone, timeSource]);
 
   // Compute initial offsets (in seconds) for animation-delay similar to HA implementation
   const {
@@ -57,49 +107,25 @@ export const AnalogClockPrivate: React.FC<AnalogClockPrivateProps> = ({
     minuteRotationStart,
     secondRotationStart,
   } = useMemo(() => {
-    try {
-      const now = new Date();
-      const updatedLocale = getLocale(locale);
-      const formatter = new Intl.DateTimeFormat(updatedLocale, {
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-        hourCycle: "h12",
-        timeZone: timezone,
-      });
-      const parts = formatter.formatToParts(now);
-      const hourStr = parts.find((p) => p.type === "hour")?.value || "0";
-      const minuteStr = parts.find((p) => p.type === "minute")?.value || "0";
-      const secondStr = parts.find((p) => p.type === "second")?.value || "0";
-      const ms = now.getMilliseconds();
-      const hour = parseInt(hourStr, 10);
-      const minute = parseInt(minuteStr, 10);
-      const second = parseInt(secondStr, 10);
-      const secondsWithMs = second + ms / 1000;
-      const hour12 = hour % 12;
-      // Starting rotation degrees
-      const hourRotation = hour12 * 30 + minute * 0.5 + secondsWithMs / 120; // 360deg/12h = 30 per hour; 0.5 per minute; slight per second
-      const minuteRotation = minute * 6 + secondsWithMs / 10; // 6 per minute; 0.1 per second for smoothness
-      const secondRotation = secondsWithMs * 6; // 6 per second
-      return {
-        hourDelay: -(hour12 * 3600 + minute * 60 + secondsWithMs),
-        minuteDelay: -(minute * 60 + secondsWithMs),
-        secondDelay: -secondsWithMs,
-        hourRotationStart: hourRotation,
-        minuteRotationStart: minuteRotation,
-        secondRotationStart: secondRotation,
-      };
-    } catch {
-      return {
-        hourDelay: 0,
-        minuteDelay: 0,
-        secondDelay: 0,
-        hourRotationStart: 0,
-        minuteRotationStart: 0,
-        secondRotationStart: 0,
-      };
-    }
-  }, [timezone]);
+    const now = clockNow(timeSource);
+    // numeric fields straight from the selected zone, independent of locale digits
+    const { hour, minute, second } = getZonedParts(now, timezone);
+    const ms = now.getMilliseconds();
+    const secondsWithMs = second + ms / 1000;
+    const hour12 = hour % 12;
+    // Starting rotation degrees
+    const hourRotation = hour12 * 30 + minute * 0.5 + secondsWithMs / 120; // 360deg/12h = 30 per hour; 0.5 per minute; slight per second
+    const minuteRotation = minute * 6 + secondsWithMs / 10; // 6 per minute; 0.1 per second for smoothness
+    const secondRotation = secondsWithMs * 6; // 6 per second
+    return {
+      hourDelay: -(hour12 * 3600 + minute * 60 + secondsWithMs),
+      minuteDelay: -(minute * 60 + secondsWithMs),
+      secondDelay: -secondsWithMs,
+      hourRotationStart: hourRotation,
+      minuteRotationStart: minuteRotation,
+      secondRotationStart: secondRotation,
+    };
+  }, [timezone, timeSource, syncKey]);
 
   return (
     <svg className="svg-analog-clock" viewBox="0 0 300 300">
@@ -138,7 +164,12 @@ export const AnalogClockPrivate: React.FC<AnalogClockPrivateProps> = ({
             )
           )}
         {labelStyle !== "none" &&
-          (labelStyle === "roman" ? hourLabelsRoman : hourLabelsNumbers).map(
+          (labelStyle === "roman"
+            ? hourLabelsRoman
+            : hourLabelsNumbers.map((h) =>
+                formatDigits(h, { locale, numberingSystem })
+              )
+          ).map(
             (l, i) =>
               drawHourLabel(
                 l,
@@ -149,7 +180,17 @@ export const AnalogClockPrivate: React.FC<AnalogClockPrivateProps> = ({
               )
           )}
 
+        {complication && (
+          <g
+            className="complication"
+            transform={`translate(0,${complicationPosition === "top" ? -COMPLICATION_OFFSET : COMPLICATION_OFFSET})`}
+          >
+            {complication}
+          </g>
+        )}
+
         <g
+          key={`hour-hand-${syncKey}`}
           className="hour-hand"
           style={{
             transform: `rotate(${hourRotationStart}deg)`,
@@ -166,6 +207,7 @@ export const AnalogClockPrivate: React.FC<AnalogClockPrivateProps> = ({
           />
         </g>
         <g
+          key={`minute-hand-${syncKey}`}
           className="minute-hand"
           style={{
             transform: `rotate(${minuteRotationStart}deg)`,
@@ -183,6 +225,7 @@ export const AnalogClockPrivate: React.FC<AnalogClockPrivateProps> = ({
         </g>
         {showSecondHand && (
           <g
+            key={`second-hand-${syncKey}`}
             className={`second-hand ${smoothSeconds ? "smooth" : "tick"}`}
             style={{
               transform: `rotate(${secondRotationStart}deg)`,
@@ -248,20 +291,7 @@ const draw5MinMarker = (
 };
 
 // Clock positions start from 3 o'clock moving clockwise due to coordinate system rotation logic used.
-const hourLabelsNumbers = [
-  "3",
-  "4",
-  "5",
-  "6",
-  "7",
-  "8",
-  "9",
-  "10",
-  "11",
-  "12",
-  "1",
-  "2",
-];
+const hourLabelsNumbers = [3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2];
 
 const hourLabelsRoman = [
   "III",
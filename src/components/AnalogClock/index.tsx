@@ -1,8 +1,15 @@
 import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
-import { AnalogClockPrivate } from "./AnalogClock";
-import { css, keyframes } from "@emotion/react";
-import { TIMEZONE_OPTIONS } from "../../constants";
+import { AnalogClockPrivate, analogHandAnimations } from "./AnalogClock";
+import { css } from "@emotion/react";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { useTimeSource } from "../../hooks";
 import { useConfig } from "@hakit/core";
+import { NUMBERING_SYSTEM_OPTIONS } from "../../constants";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { NumberingSystem } from "../../format";
+import { isSouthern, Hemisphere, LiveMoonDisc } from "../MoonPhase/MoonDisc";
 
 interface AnalogClockProps {
   clockFace: {
@@ -24,17 +31,30 @@ interface AnalogClockProps {
   };
   labels: {
     labelStyle: "none" | "numbers" | "roman";
+    numberingSystem?: NumberingSystem | "default";
     hourLabelFontSize: UnitFieldValue;
     color: string;
   };
+  complication?: {
+    type: "none" | "moon";
+    position: "top" | "bottom";
+    size: number;
+    hemisphere: Hemisphere;
+    litColor: string;
+    darkColor: string;
+  };
   timezone: {
     override: string;
+    timeSource?: TimeSource;
   };
 }
 
 export function Render(props: RenderProps<AnalogClockProps>) {
   const config = useConfig();
   const localTimezone = config?.time_zone;
+  const timeSource = props.timezone.timeSource || "browser";
+  useTimeSource(timeSource);
+  const complication = props.complication;
   return (
     <div>
       <AnalogClockPrivate
@@ -53,22 +73,31 @@ export function Render(props: RenderProps<AnalogClockProps>) {
         hourHandLength={props.hands.hour.length}
         minuteHandLength={props.hands.minute.length}
         secondHandLength={props.hands.second.length}
-        locale={config?.language}
-        timezone={
-          props.timezone.override === "user-settings"
-            ? localTimezone
-            : props.timezone.override
+        locale={getLocale(config?.language)}
+        numberingSystem={
+          props.labels.numberingSystem === "default"
+            ? undefined
+            : props.labels.numberingSystem
+        }
+        timezone={resolveTimezone(props.timezone.override, localTimezone)}
+        timeSource={timeSource}
+        complicationPosition={complication?.position}
+        complication={
+          complication?.type === "moon" ? (
+            <LiveMoonDisc
+              radius={complication.size}
+              mirrored={isSouthern(complication.hemisphere, config?.latitude)}
+              litColor={complication.litColor}
+              darkColor={complication.darkColor}
+              timeSource={timeSource}
+            />
+          ) : undefined
         }
       />
     </div>
   );
 }
 
-const sweep = keyframes`
-  from { transform: rotate(0deg); }
-  to { transform: rotate(360deg); }
-`;
-
 export const config: ComponentConfig<AnalogClockProps> = {
   label: "AnalogClock",
   internalFields: {
@@ -256,6 +285,14 @@ export const config: ComponentConfig<AnalogClockProps> = {
           ],
           default: "numbers",
         },
+        numberingSystem: {
+          type: "select",
+          label: "Label Digits",
+          description: "Digits for number labels. Locale default follows your language",
+          default: "default",
+          options: NUMBERING_SYSTEM_OPTIONS,
+          visible: (data) => data.labels.labelStyle === "numbers",
+        },
         hourLabelFontSize: {
           type: "unit",
           label: "Label Font Size",
@@ -272,20 +309,80 @@ export const config: ComponentConfig<AnalogClockProps> = {
         },
       },
     },
+    complication: {
+      type: "object",
+      label: "Complication",
+      description: "Small extra dial inside the face",
+      section: { expanded: false },
+      objectFields: {
+        type: {
+          type: "select",
+          label: "Complication",
+          description: "What to show inside the face",
+          default: "none",
+          options: [
+            { label: "None", value: "none" },
+            { label: "Moon phase", value: "moon" },
+          ],
+        },
+        position: {
+          type: "select",
+          label: "Position",
+          description: "Above or below the center",
+          default: "bottom",
+          options: [
+            { label: "Top", value: "top" },
+            { label: "Bottom", value: "bottom" },
+          ],
+          visible: (data) => data.complication?.type !== "none",
+        },
+        size: {
+          type: "number",
+          label: "Size",
+          description: "Radius (SVG units)",
+          default: 22,
+          min: 8,
+          max: 50,
+          visible: (data) => data.complication?.type !== "none",
+        },
+        hemisphere: {
+          type: "select",
+          label: "Hemisphere",
+          description: "Southern hemisphere mirrors the moon",
+          default: "auto",
+          options: [
+            { label: "From home location", value: "auto" },
+            { label: "Northern", value: "north" },
+            { label: "Southern", value: "south" },
+          ],
+          visible: (data) => data.complication?.type === "moon",
+        },
+        litColor: {
+          type: "color",
+          label: "Lit Color",
+          description: "Sunlit part of the moon",
+          default: "#f4f1e4",
+          visible: (data) => data.complication?.type === "moon",
+        },
+        darkColor: {
+          type: "color",
+          label: "Dark Color",
+          description: "Unlit part of the moon",
+          default: "#2b2d36",
+          visible: (data) => data.complication?.type === "moon",
+        },
+      },
+    },
     timezone: {
       type: "object",
       label: "Timezone",
       description: "Timezone configuration",
       section: { expanded: false },
       objectFields: {
-        override: {
-          type: "select",
-          label: "Timezone",
-          description:
-            "Select a specific timezone or use your Home Assistant user setting.",
-          options: TIMEZONE_OPTIONS,
-          default: "user-settings",
-        },
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
       },
     },
   },
@@ -303,16 +400,7 @@ export const config: ComponentConfig<AnalogClockProps> = {
           fill: ${props.clockFace.faceColor};
           stroke-width: ${props.clockFace.borderSize};
         }
-        .hour-hand {
-          animation: ${sweep} 43200s linear infinite;
-        }
-        .minute-hand {
-          animation: ${sweep} 3600s linear infinite;
-        }
-        .second-hand {
-          animation: ${sweep} 60s
-            ${props.hands.second.smooth ? "linear" : "steps(60, end)"} infinite;
-        }
+        ${analogHandAnimations(props.hands.second.smooth)}
         .hour-hand line {
           stroke: ${props.hands.hour.color};
         }
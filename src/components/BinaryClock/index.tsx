@@ -0,0 +1,309 @@
+import { useEffect, useRef } from "react";
+import { useConfig } from "@hakit/core";
+import { css } from "@emotion/react";
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import clsx from "clsx";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { resolveTimezone } from "../../helpers";
+import { clockNow, subscribeClock, ClockTick, ClockUnit, TimeSource } from "../../clock";
+import { useTimeSource } from "../../hooks";
+import { getZonedParts } from "../../timezone";
+import { binaryColumns, binaryColumnValues, toBits, BinaryMode, BinaryUnit } from "../../binary";
+
+interface BinaryClockProps {
+  show: {
+    hourFormat: "12" | "24";
+    hour: boolean;
+    minute: boolean;
+    second: boolean;
+  };
+  clock: {
+    mode: BinaryMode;
+    shape: "dot" | "square";
+    hints: boolean;
+    ledSize: UnitFieldValue;
+    spacing: UnitFieldValue;
+    onColor: string;
+    offColor: string;
+    hintColor: string;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+const ORDERED_UNITS: BinaryUnit[] = ["hour", "minute", "second"];
+
+// Sets a column's LEDs (and hint) straight on the DOM
+type ColumnUpdater = (value: number) => void;
+
+function unitValue(unit: BinaryUnit, now: Date, timezone: string | undefined, hour12: boolean): number {
+  const parts = getZonedParts(now, timezone);
+  if (unit !== "hour") return parts[unit];
+  return hour12 ? parts.hour % 12 || 12 : parts.hour;
+}
+
+function BinaryColumn({
+  bits,
+  initial,
+  onRegister,
+}: {
+  bits: number;
+  initial: number;
+  onRegister: (update: ColumnUpdater) => void;
+}) {
+  const ledsRef = useRef<(HTMLSpanElement | null)[]>([]);
+  const hintRef = useRef<HTMLSpanElement>(null);
+  useEffect(() => {
+    onRegister((value) => {
+      toBits(value, bits).forEach((on, i) => ledsRef.current[i]?.classList.toggle("ha-bc__led--on", on));
+      if (hintRef.current) hintRef.current.textContent = String(value);
+    });
+  }, [bits, onRegister]);
+  return (
+    <div className="ha-bc__column">
+      {toBits(initial, bits).map((on, i) => (
+        <span
+          key={i}
+          ref={(el) => {
+            ledsRef.current[i] = el;
+          }}
+          className={clsx("ha-bc__led", on && "ha-bc__led--on")}
+        />
+      ))}
+      <span ref={hintRef} className="ha-bc__hint" suppressHydrationWarning>
+        {initial}
+      </span>
+    </div>
+  );
+}
+
+function Render(props: RenderProps<BinaryClockProps>) {
+  const cfg = useConfig();
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  const { show, clock } = props;
+  const hour12 = show.hourFormat === "12";
+  const mode = clock.mode;
+  const enabled = ORDERED_UNITS.filter((unit) => show[unit]);
+  // keyed by "<unit>-<column>" so re-registering replaces rather than piles up
+  const updatersRef = useRef<Record<string, ColumnUpdater>>({});
+  const register = (key: string) => (update: ColumnUpdater) => {
+    updatersRef.current[key] = update;
+  };
+  const mountNow = clockNow(source);
+  const tickUnit: ClockUnit = show.second ? "second" : "minute";
+  useEffect(() => {
+    const tick = ({ now }: ClockTick) => {
+      enabled.forEach((unit) => {
+        binaryColumnValues(unitValue(unit, now, timezone, hour12), mode).forEach((value, i) =>
+          updatersRef.current[`${unit}-${i}`]?.(value)
+        );
+      });
+    };
+    // columns render the mount-time values, bring them up to date straight away
+    tick({ now: clockNow(source), resync: true });
+    return subscribeClock(tickUnit, tick, timezone, source);
+  }, [timezone, source, tickUnit, hour12, mode, enabled.join(":")]);
+
+  return (
+    <div
+      className={clsx(
+        "ha-bc__container",
+        `ha-bc__shape_${clock.shape}`,
+        clock.hints && "ha-bc__hints_on"
+      )}
+      role="img"
+      aria-label="Binary clock"
+    >
+      {enabled.map((unit) => {
+        const widths = binaryColumns(unit, mode, hour12);
+        const values = binaryColumnValues(unitValue(unit, mountNow, timezone, hour12), mode);
+        return (
+          <div key={`${unit}-${mode}-${hour12}`} className={`ha-bc__unit ha-bc__unit--${unit}`}>
+            {widths.map((bits, i) => (
+              <BinaryColumn key={i} bits={bits} initial={values[i]} onRegister={register(`${unit}-${i}`)} />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export const config: ComponentConfig<BinaryClockProps> = {
+  label: "BinaryClock",
+  fields: {
+    show: {
+      type: "object",
+      label: "Units",
+      description: "Select which time parts to display and format.",
+      section: { expanded: false },
+      objectFields: {
+        hourFormat: {
+          type: "select",
+          label: "Hour Format",
+          description: "Use 24-hour or 12-hour mode.",
+          default: "24",
+          options: [
+            { label: "24 Hour", value: "24" },
+            { label: "12 Hour", value: "12" },
+          ],
+        },
+        hour: {
+          type: "switch",
+          label: "Hour",
+          description: "Show hour columns.",
+          default: true,
+        },
+        minute: {
+          type: "switch",
+          label: "Minute",
+          description: "Show minute columns.",
+          default: true,
+        },
+        second: {
+          type: "switch",
+          label: "Second",
+          description: "Show seconds columns.",
+          default: true,
+        },
+      },
+    },
+    clock: {
+      type: "object",
+      label: "Clock",
+      description: "Clock appearance configuration",
+      section: { expanded: false },
+      objectFields: {
+        mode: {
+          type: "select",
+          label: "Mode",
+          description: "Binary: one column per unit. BCD: a column for each decimal digit.",
+          default: "bcd",
+          options: [
+            { label: "BCD", value: "bcd" },
+            { label: "Binary", value: "binary" },
+          ],
+        },
+        shape: {
+          type: "select",
+          label: "Shape",
+          description: "Shape of the LEDs.",
+          default: "dot",
+          options: [
+            { label: "Dot", value: "dot" },
+            { label: "Square", value: "square" },
+          ],
+        },
+        hints: {
+          type: "switch",
+          label: "Decimal Hints",
+          description: "Show each column's value as a number below it.",
+          default: false,
+        },
+        ledSize: {
+          type: "unit",
+          label: "LED Size",
+          description: "Width & height of each LED.",
+          default: "1rem",
+        },
+        spacing: {
+          type: "unit",
+          label: "Spacing",
+          description: "Gap between LEDs; units get twice as much.",
+          default: "0.375rem",
+          step: 0.1,
+        },
+        onColor: {
+          type: "color",
+          label: "On Color",
+          description: "Color of lit LEDs.",
+          default: "var(--clr-primary-a90)",
+        },
+        offColor: {
+          type: "color",
+          label: "Off Color",
+          description: "Color of unlit LEDs.",
+          default: "var(--clr-surface-a30)",
+        },
+        hintColor: {
+          type: "color",
+          label: "Hint Color",
+          description: "Color of the decimal hints.",
+          default: "var(--clr-primary-a70)",
+          visible: (data) => data.clock?.hints === true,
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone settings for the clock.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { clock } = props;
+    return css`
+      &.ha-bc__container {
+        --ha-bc-led-size: ${clock.ledSize};
+        --ha-bc-spacing: ${clock.spacing};
+        --ha-bc-on-color: ${clock.onColor};
+        --ha-bc-off-color: ${clock.offColor};
+        --ha-bc-hint-color: ${clock.hintColor};
+        user-select: none;
+        cursor: default;
+        display: flex;
+        align-items: flex-end;
+        gap: calc(var(--ha-bc-spacing) * 2);
+      }
+      .ha-bc__unit {
+        display: flex;
+        align-items: flex-end;
+        gap: var(--ha-bc-spacing);
+      }
+      .ha-bc__column {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: var(--ha-bc-spacing);
+      }
+      .ha-bc__led {
+        width: var(--ha-bc-led-size);
+        height: var(--ha-bc-led-size);
+        background-color: var(--ha-bc-off-color);
+        transition:
+          background-color 0.2s ease,
+          box-shadow 0.2s ease;
+      }
+      &.ha-bc__shape_dot .ha-bc__led {
+        border-radius: 50%;
+      }
+      &.ha-bc__shape_square .ha-bc__led {
+        border-radius: calc(var(--ha-bc-led-size) * 0.15);
+      }
+      .ha-bc__led--on {
+        background-color: var(--ha-bc-on-color);
+        box-shadow: 0 0 calc(var(--ha-bc-led-size) * 0.4) var(--ha-bc-on-color);
+      }
+      .ha-bc__hint {
+        display: none;
+        font-size: calc(var(--ha-bc-led-size) * 0.75);
+        line-height: 1;
+        color: var(--ha-bc-hint-color);
+        font-variant-numeric: tabular-nums;
+      }
+      &.ha-bc__hints_on .ha-bc__hint {
+        display: block;
+      }
+    `;
+  },
+  render: Render,
+};
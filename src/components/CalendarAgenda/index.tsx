@@ -0,0 +1,359 @@
+import { useEffect, useState } from "react";
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig, useLocales, useStore } from "@hakit/core";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+import { entityField } from "../../fields/EntityPicker";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { fetchCalendarEvents, groupAgenda, CalendarConnection, CalendarEvent } from "../../calendarEvents";
+import { formatClockTime, formatPreset, DatePresetKey, DATE_PRESETS, FormatContext } from "../../format";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import { formatRelative } from "../../relativeTime";
+import { getZonedParts } from "../../timezone";
+
+interface AgendaCalendar {
+  entity: string;
+  color: string;
+}
+
+interface CalendarAgendaProps {
+  calendars: AgendaCalendar[];
+  range: {
+    maxDays: number;
+    maxEvents: number;
+    emptyText: string;
+    noCalendarsText: string;
+  };
+  format: {
+    dayPreset: DatePresetKey;
+    relativeDays: boolean;
+    hourFormat: "12" | "24";
+    showEnd: boolean;
+    showLocation: boolean;
+  };
+  appearance: {
+    fontSize: UnitFieldValue;
+    color: string;
+    headingColor: string;
+    gap: UnitFieldValue;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+const DAY_MS = 86_400_000;
+// calendars don't push changes, poll this often
+const REFRESH_MINUTES = 10;
+
+const PRESET_OPTIONS = (Object.keys(DATE_PRESETS) as DatePresetKey[]).map((key) => ({
+  label: `${DATE_PRESETS[key].label} (${DATE_PRESETS[key].description})`,
+  value: key,
+}));
+
+// time column of an entry, for multi-day events from / until on the end days
+function timeLabel(
+  event: CalendarEvent,
+  first: boolean,
+  last: boolean,
+  ctx: FormatContext,
+  props: CalendarAgendaProps,
+  allDayLabel: string
+): string {
+  if (event.allDay || (!first && !last)) return allDayLabel;
+  const hour12 = props.format.hourFormat === "12";
+  const start = formatClockTime(event.start, ctx, { hour12 });
+  const end = formatClockTime(event.end, ctx, { hour12 });
+  if (!first) return `→ ${end}`;
+  if (!last) return `${start} →`;
+  return props.format.showEnd ? `${start} – ${end}` : start;
+}
+
+function Render(props: RenderProps<CalendarAgendaProps>) {
+  const cfg = useConfig();
+  const locales = useLocales();
+  const locale = getLocale(cfg?.language);
+  const { range, format } = props;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  const connection = useStore((s) => s.connection) as CalendarConnection | null | undefined;
+  // minutes so finished events drop off the list promptly
+  const { now } = useClock("minute", timezone, source);
+  const [events, setEvents] = useState<CalendarEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const calendars = (props.calendars || []).filter((c) => c.entity);
+  const ids = calendars.map((c) => c.entity);
+  const maxDays = Math.max(1, range.maxDays || 1);
+  const refreshKey = Math.floor(now.getTime() / (REFRESH_MINUTES * 60_000));
+
+  useEffect(() => {
+    if (!connection || ids.length === 0) return;
+    let cancelled = false;
+    // a day either side covers all-day events and timezones ahead of / behind the server
+    const start = new Date(now.getTime() - DAY_MS);
+    const end = new Date(now.getTime() + (maxDays + 1) * DAY_MS);
+    fetchCalendarEvents(connection, ids, start, end)
+      .then((result) => {
+        if (cancelled) return;
+        setEvents(result);
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        // websocket errors are { code, message } objects rather than Errors
+        setError((err as { message?: string } | null)?.message || String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, ids.join(","), maxDays, refreshKey]);
+
+  const colors = Object.fromEntries(calendars.map((c) => [c.entity, c.color]));
+  const days = events
+    ? groupAgenda(
+        events.filter((e) => ids.includes(e.calendar)),
+        { timeZone: timezone, now, maxDays, maxEvents: Math.max(1, range.maxEvents || 1) }
+      )
+    : [];
+  const ctx: FormatContext = { locale, timeZone: timezone };
+  const today = getZonedParts(now, timezone);
+  // day dates are UTC midnights, compare like with like
+  const todayUtc = Date.UTC(today.year, today.month - 1, today.day);
+
+  if (ids.length === 0 || error || (events && days.length === 0)) {
+    return (
+      <div className="ha-ag__container">
+        <div className={clsx("ha-ag__empty", error && "ha-ag__empty--error")} title={error || undefined}>
+          {ids.length === 0 ? range.noCalendarsText : error ? locales.calendar_event_retrieval_error : range.emptyText}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={clsx("ha-ag__container", !events && "ha-ag__container--loading")}>
+      {days.map((day) => {
+        const offset = Math.round((day.date.getTime() - todayUtc) / DAY_MS);
+        const heading =
+          format.relativeDays && offset <= 1
+            ? formatRelative({ value: offset, unit: "day" }, locale, { numeric: "auto" })
+            : formatPreset(day.date, { locale, timeZone: "UTC" }, format.dayPreset);
+        return (
+          <section key={day.key} className={clsx("ha-ag__day", offset === 0 && "ha-ag__day--today")}>
+            <h3 className="ha-ag__heading" suppressHydrationWarning>
+              {heading}
+            </h3>
+            <ul className="ha-ag__events">
+              {day.items.map(({ event, first, last }, idx) => (
+                <li
+                  key={`${event.calendar}-${event.start.getTime()}-${idx}`}
+                  className={clsx("ha-ag__event", event.allDay && "ha-ag__event--all_day")}
+                  style={{ ["--ha-ag-calendar-color" as string]: colors[event.calendar] }}
+                >
+                  <span className="ha-ag__time">{timeLabel(event, first, last, ctx, props, locales.all_day)}</span>
+                  <span className="ha-ag__details">
+                    <span className="ha-ag__summary">{event.summary}</span>
+                    {format.showLocation && event.location && <span className="ha-ag__location">{event.location}</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+export const config: ComponentConfig<CalendarAgendaProps> = {
+  label: "CalendarAgenda",
+  fields: {
+    calendars: {
+      type: "array",
+      label: "Calendars",
+      description: "Calendar entities to list events from, each with its own color.",
+      getItemSummary: (item: AgendaCalendar) => item.entity || "New calendar",
+      defaultItemProps: { entity: "", color: "var(--clr-primary-a0)" },
+      default: [],
+      arrayFields: {
+        entity: entityField("calendar", "The calendar.* entity to read events from."),
+        color: {
+          type: "color",
+          label: "Color",
+          default: "var(--clr-primary-a0)",
+          description: "Marker color for this calendar's events.",
+        },
+      },
+    },
+    range: {
+      type: "object",
+      label: "Range",
+      description: "How far ahead to look and how much to show.",
+      section: { expanded: false },
+      objectFields: {
+        maxDays: {
+          type: "number",
+          label: "Days",
+          default: 7,
+          min: 1,
+          max: 90,
+          description: "Number of days from today to include.",
+        },
+        maxEvents: {
+          type: "number",
+          label: "Max Events",
+          default: 10,
+          min: 1,
+          description: "At most this many events; a multi-day event counts once.",
+        },
+        emptyText: {
+          type: "text",
+          label: "Empty Text",
+          default: "No upcoming events",
+          description: "Shown when there is nothing in the range.",
+        },
+        noCalendarsText: {
+          type: "text",
+          label: "No Calendars Text",
+          default: "Add a calendar entity",
+          description: "Shown until a calendar is picked.",
+        },
+      },
+    },
+    format: {
+      type: "object",
+      label: "Format",
+      description: "Day headings and event times.",
+      section: { expanded: false },
+      objectFields: {
+        dayPreset: {
+          type: "select",
+          label: "Day Heading",
+          default: "weekday_month_day",
+          options: PRESET_OPTIONS,
+          description: "Any of the DateText presets.",
+        },
+        relativeDays: {
+          type: "switch",
+          label: "Today / Tomorrow",
+          default: true,
+          description: "Name today and tomorrow instead of using the preset.",
+        },
+        hourFormat: {
+          type: "select",
+          label: "Hour Format",
+          default: "24",
+          options: [
+            { label: "24 Hour", value: "24" },
+            { label: "12 Hour", value: "12" },
+          ],
+          description: "Use 24-hour or 12-hour (AM/PM) mode.",
+        },
+        showEnd: { type: "switch", label: "End Time", default: true, description: "Show when each event ends." },
+        showLocation: { type: "switch", label: "Location", default: true, description: "Show the event location." },
+      },
+    },
+    appearance: {
+      type: "object",
+      label: "Appearance",
+      description: "Sizes and colors.",
+      section: { expanded: false },
+      objectFields: {
+        fontSize: { type: "unit", label: "Font Size", default: "1rem", description: "Base font size." },
+        gap: { type: "unit", label: "Day Spacing", default: "0.75rem", description: "Space between days." },
+        color: {
+          type: "color",
+          label: "Text Color",
+          default: "var(--clr-on-surface-a0, currentColor)",
+          description: "Color of the events.",
+        },
+        headingColor: {
+          type: "color",
+          label: "Heading Color",
+          default: "var(--clr-on-surface-a50, currentColor)",
+          description: "Color of the day headings.",
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone events are grouped into days and shown in.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { appearance } = props;
+    return css`
+      &.ha-ag__container {
+        font-size: ${appearance.fontSize};
+        color: ${appearance.color};
+        display: flex;
+        flex-direction: column;
+        gap: ${appearance.gap};
+      }
+      &.ha-ag__container--loading {
+        min-height: 2em;
+      }
+      .ha-ag__heading {
+        margin: 0 0 0.25em;
+        font-size: 0.8em;
+        font-weight: 600;
+        text-transform: uppercase;
+        color: ${appearance.headingColor};
+      }
+      .ha-ag__events {
+        list-style: none;
+        margin: 0;
+        padding: 0;
+        display: flex;
+        flex-direction: column;
+        gap: 0.35em;
+      }
+      .ha-ag__event {
+        display: flex;
+        gap: 0.75em;
+        padding-left: 0.6em;
+        border-left: 3px solid var(--ha-ag-calendar-color, currentColor);
+      }
+      .ha-ag__event--all_day {
+        background: color-mix(in srgb, var(--ha-ag-calendar-color, currentColor) 15%, transparent);
+        border-radius: 0 0.25em 0.25em 0;
+      }
+      .ha-ag__time {
+        flex: none;
+        min-width: 5.5em;
+        font-variant-numeric: tabular-nums;
+        opacity: 0.8;
+      }
+      .ha-ag__details {
+        display: flex;
+        flex-direction: column;
+        min-width: 0;
+      }
+      .ha-ag__summary {
+        font-weight: 500;
+      }
+      .ha-ag__location {
+        font-size: 0.8em;
+        opacity: 0.7;
+      }
+      .ha-ag__empty {
+        opacity: 0.6;
+      }
+      .ha-ag__empty--error {
+        color: var(--clr-danger-a0, #e53935);
+        opacity: 1;
+      }
+    `;
+  },
+  render: Render,
+};
@@ -0,0 +1,403 @@
+import { useEffect, useReducer } from "react";
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig, useStore } from "@hakit/core";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+import { FlipText, flipDigitStyles } from "../DigitalClock/FlipDigit";
+import { entityTimestampField, EntityTimestampRef } from "../../fields/EntityTimestampPicker";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { clockNow, TimeSource } from "../../clock";
+import { NUMBERING_SYSTEM_OPTIONS } from "../../constants";
+import { durationUnitLabel, splitDuration, DurationUnit, DURATION_UNITS } from "../../duration";
+import { entityTimestamp, parseTimestampValue, TimestampEntity } from "../../entityTime";
+import { formatDigits, NumberingSystem } from "../../format";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import { getZonedParts, zonedTimeToDate } from "../../timezone";
+
+interface CountdownProps {
+  target: {
+    mode: "date" | "daily" | "entity";
+    date?: string; // "2025-12-25" or "2025-12-25 08:00", in the selected timezone
+    time?: string; // "15:10", every day in the selected timezone
+    entity?: EntityTimestampRef;
+  };
+  units: {
+    days: boolean;
+    hours: boolean;
+    minutes: boolean;
+    seconds: boolean;
+    labels: boolean;
+    numberingSystem?: NumberingSystem | "default";
+  };
+  finish: {
+    behavior: "hide" | "message" | "count-up";
+    message?: string;
+    holdMinutes: number; // daily mode: how long the finished state lasts before the next day's countdown
+  };
+  clock: {
+    styleMode: "flip" | "digital";
+    spacing: UnitFieldValue;
+    digitWidth: UnitFieldValue;
+    digitHeight: UnitFieldValue;
+    digitRadius: UnitFieldValue;
+    digitFontSize: UnitFieldValue;
+    labelFontSize: UnitFieldValue;
+    backgroundColor: string;
+    digitColor: string;
+    dividerColor: string;
+    labelColor: string;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+// longest delay setTimeout takes, about 24.8 days
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+// Next time `time` (HH:mm) comes round in `timeZone`. A time that passed less
+// than `holdMs` ago is still returned so the finished state can show for a while.
+function nextDaily(time: string | undefined, now: Date, timeZone: string | undefined, holdMs: number): Date | null {
+  const today = parseTimestampValue((time || "").trim(), timeZone, now);
+  if (!today) return null;
+  if (now.getTime() - today.getTime() < holdMs) return today;
+  const wall = getZonedParts(today, timeZone);
+  // via wall time rather than +24h, so a DST change in between keeps the same HH:mm
+  return zonedTimeToDate({ ...wall, day: wall.day + 1 }, timeZone);
+}
+
+function Render(props: RenderProps<CountdownProps>) {
+  const cfg = useConfig();
+  const locale = getLocale(cfg?.language);
+  const { target, units, finish, clock } = props;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  const entityRef = target.mode === "entity" ? target.entity : undefined;
+  const entity = useStore((s) => (entityRef?.entity ? s.entities[entityRef.entity] : undefined)) as
+    | TimestampEntity
+    | undefined;
+  const shown = DURATION_UNITS.filter((u) => units[u]);
+  const smallest = shown[shown.length - 1];
+  useClock(smallest === "seconds" ? "second" : "minute", timezone, source);
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const now = clockNow(source);
+  const holdMs = Math.max(0, finish.holdMinutes || 0) * 60_000;
+
+  const targetDate =
+    target.mode === "entity"
+      ? entityTimestamp(entity, entityRef?.attribute || "", cfg?.time_zone, now)
+      : target.mode === "daily"
+        ? nextDaily(target.time, now, timezone, holdMs)
+        : parseTimestampValue((target.date || "").trim(), timezone, now);
+  // without seconds the clock only wakes on whole minutes; finish at the target itself
+  const targetMs = targetDate ? targetDate.getTime() : NaN;
+  useEffect(() => {
+    const wait = targetMs - clockNow(source).getTime();
+    if (!(wait > 0 && wait <= MAX_TIMEOUT_MS)) return;
+    const timer = setTimeout(refresh, wait);
+    return () => clearTimeout(timer);
+  }, [targetMs, source]);
+
+  if (!targetDate || shown.length === 0) {
+    return <div className="ha-cd__container ha-cd__container--empty" />;
+  }
+  const remaining = targetDate.getTime() - now.getTime();
+  const finished = remaining <= 0;
+  if (finished && finish.behavior === "hide") {
+    return <div className="ha-cd__container ha-cd__container--finished" />;
+  }
+  if (finished && finish.behavior === "message") {
+    return (
+      <div className="ha-cd__container ha-cd__container--finished">
+        <div className="ha-cd__message">{finish.message}</div>
+      </div>
+    );
+  }
+  // count-up past the target, counting whole units from the target onwards
+  const parts = finished
+    ? splitDuration(now.getTime() - targetDate.getTime(), shown, "down")
+    : splitDuration(remaining, shown);
+  const numberingSystem = units.numberingSystem === "default" ? undefined : units.numberingSystem;
+  const digits = (unit: DurationUnit) =>
+    formatDigits(parts[unit], { locale, numberingSystem }, unit === shown[0] && unit === "days" ? 1 : 2);
+
+  return (
+    <div
+      className={clsx(
+        "ha-cd__container",
+        clock.styleMode === "flip" ? "ha-cd__mode_flip" : "ha-cd__mode_digital",
+        finished && "ha-cd__container--counting-up"
+      )}
+      role="timer"
+      aria-label={shown.map((u) => `${parts[u]} ${durationUnitLabel(parts[u], u, locale)}`).join(", ")}
+    >
+      {shown.map((unit) => (
+        <div key={unit} className={`ha-cd__unit ha-cd__unit--${unit}`}>
+          <div className="ha-cd__digits_row" aria-hidden="true">
+            {clock.styleMode === "flip" ? (
+              <FlipText text={digits(unit)} className={`ha-dc__digit_block--${unit}`} />
+            ) : (
+              <span className="ha-cd__digits" suppressHydrationWarning>
+                {digits(unit)}
+              </span>
+            )}
+          </div>
+          {units.labels && (
+            <div className="ha-cd__label" aria-hidden="true">
+              {durationUnitLabel(parts[unit], unit, locale)}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export const config: ComponentConfig<CountdownProps> = {
+  label: "Countdown",
+  internalFields: {
+    omit: {
+      $appearance: {
+        sizeAndSpacing: {
+          width: true,
+          height: true,
+        },
+      },
+    },
+  },
+  fields: {
+    target: {
+      type: "object",
+      label: "Target",
+      description: "What to count down to.",
+      section: { expanded: false },
+      objectFields: {
+        mode: {
+          type: "select",
+          label: "Count Down To",
+          default: "date",
+          options: [
+            { label: "A date / time", value: "date" },
+            { label: "A time every day", value: "daily" },
+            { label: "An entity's timestamp", value: "entity" },
+          ],
+          description: "Fixed date, recurring time of day, or a timestamp / input_datetime entity.",
+        },
+        date: {
+          type: "text",
+          label: "Date",
+          default: "2026-12-25 00:00",
+          visible: (data) => data.target?.mode === "date",
+          description: "YYYY-MM-DD or YYYY-MM-DD HH:mm, in the timezone below.",
+        },
+        time: {
+          type: "text",
+          label: "Time",
+          default: "15:10",
+          visible: (data) => data.target?.mode === "daily",
+          description: "HH:mm, counts down to the next time it comes round in the timezone below.",
+        },
+        entity: {
+          ...entityTimestampField(
+            "A timestamp sensor, an input_datetime or a time attribute (e.g. next departure)."
+          ),
+          visible: (data) => data.target?.mode === "entity",
+        },
+      },
+    },
+    units: {
+      type: "object",
+      label: "Units",
+      description: "Which units to show; the largest one holds everything above it.",
+      section: { expanded: false },
+      objectFields: {
+        days: { type: "switch", label: "Days", default: true, description: "Show days." },
+        hours: { type: "switch", label: "Hours", default: true, description: "Show hours." },
+        minutes: { type: "switch", label: "Minutes", default: true, description: "Show minutes." },
+        seconds: { type: "switch", label: "Seconds", default: true, description: "Show seconds." },
+        labels: {
+          type: "switch",
+          label: "Labels",
+          default: true,
+          description: "Localized unit names under each group.",
+        },
+        numberingSystem: {
+          type: "select",
+          label: "Digits",
+          default: "default",
+          options: NUMBERING_SYSTEM_OPTIONS,
+          description: "Digits on the cards. Locale default follows your language.",
+        },
+      },
+    },
+    finish: {
+      type: "object",
+      label: "At Zero",
+      description: "What happens once the target is reached.",
+      section: { expanded: false },
+      objectFields: {
+        behavior: {
+          type: "select",
+          label: "Behavior",
+          default: "message",
+          options: [
+            { label: "Show a message", value: "message" },
+            { label: "Count up", value: "count-up" },
+            { label: "Hide", value: "hide" },
+          ],
+          description: "Message, time elapsed since the target, or nothing at all.",
+        },
+        message: {
+          type: "text",
+          label: "Message",
+          default: "It's time!",
+          visible: (data) => data.finish?.behavior === "message",
+          description: "Shown in place of the countdown.",
+        },
+        holdMinutes: {
+          type: "number",
+          label: "Hold (minutes)",
+          default: 5,
+          min: 0,
+          visible: (data) => data.target?.mode === "daily",
+          description: "How long the finished state lasts before counting down to the next day.",
+        },
+      },
+    },
+    clock: {
+      type: "object",
+      label: "Appearance",
+      description: "Flip cards or plain digits, sizes and colors.",
+      section: { expanded: false },
+      objectFields: {
+        styleMode: {
+          type: "select",
+          label: "Style",
+          default: "flip",
+          options: [
+            { label: "Flip", value: "flip" },
+            { label: "Digital", value: "digital" },
+          ],
+          description: "Flip cards like DigitalClock, or plain digits.",
+        },
+        spacing: { type: "unit", label: "Spacing", default: "1rem", description: "Gap between unit groups." },
+        digitWidth: {
+          type: "unit",
+          label: "Digit Width",
+          default: "3rem",
+          visible: (data) => data.clock?.styleMode === "flip",
+          description: "Width of each flip card.",
+        },
+        digitHeight: {
+          type: "unit",
+          label: "Digit Height",
+          default: "4.5rem",
+          visible: (data) => data.clock?.styleMode === "flip",
+          description: "Height of each flip card.",
+        },
+        digitRadius: {
+          type: "unit",
+          label: "Digit Radius",
+          default: "0.5rem",
+          visible: (data) => data.clock?.styleMode === "flip",
+          description: "Corner radius of each flip card.",
+        },
+        digitFontSize: { type: "unit", label: "Digit Font Size", default: "3rem", description: "Size of the digits." },
+        labelFontSize: {
+          type: "unit",
+          label: "Label Font Size",
+          default: "0.75rem",
+          visible: (data) => data.units?.labels === true,
+          description: "Size of the unit names.",
+        },
+        backgroundColor: {
+          type: "color",
+          label: "Card Color",
+          default: "var(--clr-surface-a10)",
+          visible: (data) => data.clock?.styleMode === "flip",
+          description: "Background of the flip cards.",
+        },
+        digitColor: { type: "color", label: "Digit Color", default: "var(--clr-on-surface-a0, currentColor)", description: "Color of the digits." },
+        dividerColor: {
+          type: "color",
+          label: "Divider Color",
+          default: "var(--clr-surface-a30)",
+          visible: (data) => data.clock?.styleMode === "flip",
+          description: "Line across the middle of each card.",
+        },
+        labelColor: {
+          type: "color",
+          label: "Label Color",
+          default: "var(--clr-on-surface-a0, currentColor)",
+          visible: (data) => data.units?.labels === true,
+          description: "Color of the unit names and the message.",
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone the date and daily time are given in.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { clock } = props;
+    return css`
+      &.ha-cd__container {
+        --ha-dc-flip-duration: 0.7s;
+        --ha-dc-digit-block-width: ${clock.digitWidth};
+        --ha-dc-digit-block-height: ${clock.digitHeight};
+        --ha-dc-digit-block-radius: ${clock.digitRadius};
+        --ha-dc-digit-font-size: ${clock.digitFontSize};
+        --ha-dc-background: ${clock.backgroundColor};
+        --ha-dc-digit-color: ${clock.digitColor};
+        --ha-dc-divider-color: ${clock.dividerColor};
+        --ha-dc-divider-height: 1px;
+        display: flex;
+        align-items: flex-start;
+        gap: ${clock.spacing};
+        user-select: none;
+        cursor: default;
+      }
+      .ha-cd__unit {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+      }
+      .ha-cd__digits_row {
+        display: flex;
+        gap: 4px;
+      }
+      .ha-cd__digits {
+        font-size: ${clock.digitFontSize};
+        color: ${clock.digitColor};
+        font-weight: 500;
+        line-height: 1;
+        font-variant-numeric: tabular-nums;
+      }
+      .ha-cd__label {
+        margin-top: 0.25rem;
+        font-size: ${clock.labelFontSize};
+        color: ${clock.labelColor};
+        font-weight: 500;
+        line-height: 1;
+        text-transform: uppercase;
+      }
+      .ha-cd__message {
+        font-size: calc(${clock.digitFontSize} * 0.5);
+        color: ${clock.labelColor};
+        line-height: 1.2;
+      }
+      ${flipDigitStyles}
+    `;
+  },
+  render: Render,
+};
@@ -1,185 +1,46 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useMemo } from "react";
 import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
 import { Column, SelectField } from "@hakit/addon/components";
-import { useConfig } from "@hakit/core";
+import { useConfig, useStore } from "@hakit/core";
 import { css } from "@emotion/react";
-import { TIMEZONE_OPTIONS } from "../../constants";
-import { getLocale } from "../../helpers";
-
-// Supported part tokens
-type DatePartKey = "year" | "month" | "day" | "weekday";
-
-// Preset definition structure
-interface PresetDef {
-  label: string;
-  description: string;
-  order: (DatePartKey | { sep: string })[]; // sequence of parts & separators
-  options: Intl.DateTimeFormatOptions; // intl options needed for these parts
-  dayOrdinal?: boolean; // if true convert day to ordinal suffix (e.g. 20th)
-}
-
-const PRESETS: Record<string, PresetDef> = {
-  weekday: {
-    label: "Weekday (Long)",
-    description: "Monday",
-    order: ["weekday"],
-    options: { weekday: "long" },
-  },
-  weekday_short: {
-    label: "Weekday (Short)",
-    description: "Mon",
-    order: ["weekday"],
-    options: { weekday: "short" },
-  },
-  day_numeric: {
-    label: "Day (Numeric)",
-    description: "3",
-    order: ["day"],
-    options: { day: "numeric" },
-  },
-  day_ordinal: {
-    label: "Day (Ordinal)",
-    description: "3rd",
-    order: ["day"],
-    options: { day: "numeric" },
-    dayOrdinal: true,
-  },
-  month_long: {
-    label: "Month (Long)",
-    description: "November",
-    order: ["month"],
-    options: { month: "long" },
-  },
-  month_short: {
-    label: "Month (Short)",
-    description: "Nov",
-    order: ["month"],
-    options: { month: "short" },
-  },
-  month_day_ordinal: {
-    label: "Month Day Ordinal",
-    description: "November 3rd",
-    order: ["month", "day"],
-    options: { month: "long", day: "numeric" },
-    dayOrdinal: true,
-  },
-  weekday_month_day_ordinal: {
-    label: "Weekday, Month Day Ordinal",
-    description: "Monday, November 3rd",
-    order: ["weekday", { sep: ", " }, "month", "day"],
-    options: { weekday: "long", month: "long", day: "numeric" },
-    dayOrdinal: true,
-  },
-  month_day_year: {
-    label: "Month Day Year",
-    description: "October 20 2025",
-    order: ["month", "day", "year"],
-    options: { month: "long", day: "numeric", year: "numeric" },
-  },
-  month_day_year_ordinal: {
-    label: "Month Day Year Ordinal",
-    description: "November 3rd 2025",
-    order: ["month", "day", "year"],
-    options: { month: "long", day: "numeric", year: "numeric" },
-    dayOrdinal: true,
-  },
-  weekday_month_day: {
-    label: "Weekday Month Day",
-    description: "Mon Oct 20",
-    order: ["weekday", "month", "day"],
-    options: { weekday: "short", month: "short", day: "numeric" },
-  },
-  weekday_month_day_year: {
-    label: "Weekday Month Day Year",
-    description: "Mon Oct 20 2025",
-    order: ["weekday", "month", "day", "year"],
-    options: { weekday: "short", month: "short", day: "numeric", year: "numeric" },
-  },
-  dmy_slash: {
-    label: "D/M/Y Slashes",
-    description: "20/10/2025",
-    order: ["day", { sep: "/" }, "month", { sep: "/" }, "year"],
-    options: { year: "numeric", month: "2-digit", day: "2-digit" },
-  },
-  ymd_slash: {
-    label: "Y/M/D Slashes",
-    description: "2025/10/20",
-    order: ["year", { sep: "/" }, "month", { sep: "/" }, "day"],
-    options: { year: "numeric", month: "2-digit", day: "2-digit" },
-  },
-  mdy_slash: {
-    label: "M/D/Y Slashes",
-    description: "10/20/2025",
-    order: ["month", { sep: "/" }, "day", { sep: "/" }, "year"],
-    options: { year: "numeric", month: "2-digit", day: "2-digit" },
-  },
-  iso: {
-    label: "ISO (Date)",
-    description: "2025-10-20",
-    order: ["year", { sep: "-" }, "month", { sep: "-" }, "day"],
-    options: { year: "numeric", month: "2-digit", day: "2-digit" },
-  },
-  ymd_dot: {
-    label: "Y.M.D Dots",
-    description: "2025.10.20",
-    order: ["year", { sep: "." }, "month", { sep: "." }, "day"],
-    options: { year: "numeric", month: "2-digit", day: "2-digit" },
-  },
-  dmy_dot: {
-    label: "D.M.Y Dots",
-    description: "20.10.2025",
-    order: ["day", { sep: "." }, "month", { sep: "." }, "year"],
-    options: { year: "numeric", month: "2-digit", day: "2-digit" },
-  },
-  full_long: {
-    label: "Full Long",
-    description: "Monday, October 20, 2025",
-    order: ["weekday", { sep: ", " }, "month", "day", { sep: ", " }, "year"],
-    options: { weekday: "long", month: "long", day: "numeric", year: "numeric" },
-  },
-  weekday_day_ordinal: {
-    label: "Weekday Day Ordinal",
-    description: "Saturday 20th",
-    order: ["weekday", "day"],
-    options: { weekday: "long", day: "numeric" },
-    dayOrdinal: true,
-  },
-  weekday_month_day_year_ordinal: {
-    label: "Weekday Month Day Year Ordinal",
-    description: "Monday November 3rd 2025",
-    order: ["weekday", "month", "day", "year"],
-    options: { weekday: "long", month: "long", day: "numeric", year: "numeric" },
-    dayOrdinal: true,
-  },
-  iso_with_weekday: {
-    label: "Weekday ISO",
-    description: "Mon 2025-10-20",
-    order: ["weekday", { sep: " " }, "year", { sep: "-" }, "month", { sep: "-" }, "day"],
-    options: { weekday: "short", year: "numeric", month: "2-digit", day: "2-digit" },
-  },
-  custom: {
-    label: "Custom",
-    description: "Controlled by toggles below",
-    order: [],
-    options: {},
-  },
-};
-
-function getOrdinalSuffix(day: number): string {
-  const v = day % 100;
-  if (v >= 11 && v <= 13) return `${day}th`;
-  switch (day % 10) {
-    case 1: return `${day}st`;
-    case 2: return `${day}nd`;
-    case 3: return `${day}rd`;
-    default: return `${day}th`;
-  }
-}
+import { entityTimestampField, EntityTimestampRef } from "../../fields/EntityTimestampPicker";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { entityTimestamp, isDateOnlyTimestamp, TimestampEntity } from "../../entityTime";
+import { CALENDAR_OPTIONS, NUMBERING_SYSTEM_OPTIONS } from "../../constants";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import {
+  DATE_PRESETS,
+  calendarSafeSequence,
+  formatDateParts,
+  formatPreset,
+  parseFormatPattern,
+  DatePartKey,
+  DatePartSpec,
+  DatePresetDef,
+  DatePresetKey,
+  CalendarId,
+  FormatContext,
+  NumberingSystem,
+  FormatSequence,
+} from "../../format";
 
 interface DateProps {
-  timezone: { override: string };
+  source: {
+    type: "now" | "entity";
+    // only used when type === 'entity'
+    entity?: EntityTimestampRef;
+    unavailableText?: string;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
   format: {
-    preset: keyof typeof PRESETS;
+    preset: DatePresetKey | "custom" | "pattern";
+    calendar?: CalendarId | "default";
+    numberingSystem?: NumberingSystem | "default";
+    // only used when preset === 'pattern'
+    pattern?: string;
     // only used when preset === 'custom'
     year?: boolean;
     yearFormat?: "2-digit" | "numeric"; // numeric -> full year
@@ -197,31 +58,24 @@ interface DateProps {
   };
 }
 
-interface PartValueMap { year?: string; month?: string; day?: string; weekday?: string; }
-
-function buildFormatter(locale: string | undefined, timezone: string | undefined, f: Partial<DateProps["format"]>): Intl.DateTimeFormat {
-  if (f.preset !== 'custom') {
-    const def = PRESETS[f.preset as keyof typeof PRESETS] || PRESETS.full_long;
-    return new Intl.DateTimeFormat(locale, { timeZone: timezone, ...def.options });
-  }
-  const opts: Intl.DateTimeFormatOptions = { timeZone: timezone };
-  if (f.year && f.yearFormat) opts.year = f.yearFormat;
-  if (f.month && f.monthFormat) opts.month = f.monthFormat;
-  if (f.day && f.dayFormat && f.dayFormat !== 'ordinal') opts.day = f.dayFormat === '2-digit' ? '2-digit' : 'numeric';
-  if (f.weekday && f.weekdayFormat) opts.weekday = f.weekdayFormat;
-  return new Intl.DateTimeFormat(locale, opts);
+function presetDef(f: Partial<DateProps["format"]>): DatePresetDef {
+  return DATE_PRESETS[f.preset as DatePresetKey] || DATE_PRESETS.full_long;
 }
 
-function extractParts(d: Date, fmt: Intl.DateTimeFormat): PartValueMap {
-  const out: PartValueMap = {};
-  for (const p of fmt.formatToParts(d)) {
-    if (p.type === 'year' || p.type === 'month' || p.type === 'day' || p.type === 'weekday') out[p.type] = p.value;
-  }
-  return out;
+function buildSpec(f: Partial<DateProps["format"]>): DatePartSpec {
+  if (f.preset === 'pattern') return parseFormatPattern(f.pattern || '').spec;
+  if (f.preset !== 'custom') return presetDef(f).spec;
+  const spec: DatePartSpec = {};
+  if (f.year && f.yearFormat) spec.year = f.yearFormat;
+  if (f.month && f.monthFormat) spec.month = f.monthFormat;
+  if (f.day && f.dayFormat) spec.day = f.dayFormat;
+  if (f.weekday && f.weekdayFormat) spec.weekday = f.weekdayFormat;
+  return spec;
 }
 
-function buildSequence(f: Partial<DateProps['format']>): (DatePartKey | { sep: string })[] {
-  if (f.preset !== 'custom') return PRESETS[f.preset as keyof typeof PRESETS]?.order || [];
+function buildSequence(f: Partial<DateProps['format']>): FormatSequence {
+  if (f.preset === 'pattern') return parseFormatPattern(f.pattern || '').sequence;
+  if (f.preset !== 'custom') return presetDef(f).sequence;
   const sepMap: Record<'space'|'slash'|'dash'|'comma-space', string> = { space:' ', slash:'/', dash:'-', 'comma-space':', ' };
   const sep = sepMap[(f.separatorStyle || 'space') as keyof typeof sepMap];
   const order: DatePartKey[] = [];
@@ -230,63 +84,48 @@ function buildSequence(f: Partial<DateProps['format']>): (DatePartKey | { sep: s
   if (f.day) order.push('day');
   if (f.year) order.push('year');
   if (order.length <= 1) return order;
-  const seq: (DatePartKey | { sep: string })[] = [];
+  const seq: FormatSequence = [];
   order.forEach((part, idx) => { seq.push(part); if (idx < order.length - 1) seq.push({ sep }); });
   return seq;
 }
 
-// Build rendered string exactly as Render would produce (concatenated parts & separators)
-// (Removed earlier composeDisplay – DOM renders parts; preview uses composePreview)
-
-// Preview string: inserts a space between adjacent parts when no explicit separator exists
-function composePreview(date: Date, locale: string | undefined, timezone: string | undefined, format: Partial<DateProps['format']>): string {
-  const fmt = buildFormatter(locale, timezone, format);
-  const raw = extractParts(date, fmt);
-  if ((format.preset === 'custom' && format.day && format.dayFormat === 'ordinal') || (format.preset !== 'custom' && PRESETS[format.preset as keyof typeof PRESETS]?.dayOrdinal)) {
-    raw.day = getOrdinalSuffix(date.getDate());
-  }
-  const seq = buildSequence(format);
-  let out = '';
-  let lastWasPart = false;
-  seq.forEach(token => {
-    if (typeof token === 'string') {
-      const v = raw[token] || '';
-      if (lastWasPart && out.length > 0) out += ' ';
-      out += v;
-      lastWasPart = true;
-    } else {
-      out += token.sep; // keep explicit separator verbatim
-      lastWasPart = false; // explicit separator resets adjacency
-    }
-  });
-  return out;
-}
-
 function Render(props: RenderProps<DateProps>) {
   const cfg = useConfig();
-  const timezone = props.timezone.override === 'user-settings' ? cfg?.time_zone : props.timezone.override;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
   const locale = getLocale(cfg?.language);
-  const fmt = useMemo(() => buildFormatter(locale, timezone, props.format as DateProps['format']), [locale, timezone, props.format]);
-  const [parts, setParts] = useState<PartValueMap>(() => extractParts(new Date(), fmt));
-  const seq = useMemo(() => buildSequence(props.format as DateProps['format']), [props.format]);
-  const intervalRef = useRef<number | null>(null);
-  useEffect(() => {
-    const tick = () => {
-      const now = new Date();
-      const extracted = extractParts(now, fmt);
-      if (
-        (props.format.preset === 'custom' && props.format.day && props.format.dayFormat === 'ordinal') ||
-        (props.format.preset !== 'custom' && PRESETS[props.format.preset].dayOrdinal)
-      ) {
-        extracted.day = getOrdinalSuffix(now.getDate());
-      }
-      setParts(extracted);
-    };
-    tick();
-    if (intervalRef.current) window.clearInterval(intervalRef.current);
-    intervalRef.current = window.setInterval(tick, 60_000);
-    return () => { if (intervalRef.current) window.clearInterval(intervalRef.current); };
-  }, [fmt, props.format.preset, props.format.day, props.format.dayFormat]);
+  const spec = useMemo(() => buildSpec(props.format as DateProps['format']), [props.format]);
+  const source = props.timezone.timeSource || 'browser';
+  useTimeSource(source);
+  const entityRef = props.source?.type === 'entity' ? props.source.entity : undefined;
+  const entity = useStore((s) => (entityRef?.entity ? s.entities[entityRef.entity] : undefined)) as TimestampEntity | undefined;
+  // presets only change at midnight in the selected timezone, patterns may include time parts;
+  // an entity value only moves when the entity does (or at midnight, for a bare time)
+  const { now } = useClock(!entityRef && spec.second ? 'second' : !entityRef && (spec.hour || spec.minute) ? 'minute' : 'day', timezone, source);
+  // a date without a time is a calendar date, not an instant: read it as UTC
+  // midnight and format it in UTC, so no timezone override moves it a day
+  const dateOnly = !!entityRef && isDateOnlyTimestamp(entity, entityRef.attribute);
+  const formatZone = dateOnly ? 'UTC' : timezone;
+  const value = entityRef ? entityTimestamp(entity, entityRef.attribute, dateOnly ? 'UTC' : cfg?.time_zone, now) : now;
+  const valueMs = value ? value.getTime() : NaN;
+  const calendar = props.format.calendar === 'default' ? undefined : props.format.calendar;
+  const numberingSystem = props.format.numberingSystem === 'default' ? undefined : props.format.numberingSystem;
+  const ctx: FormatContext = { locale, timeZone: formatZone, calendar, numberingSystem };
+  const parts = useMemo(
+    () => (Number.isNaN(valueMs) ? {} : formatDateParts(new Date(valueMs), ctx, spec)),
+    [valueMs, locale, formatZone, calendar, numberingSystem, spec]
+  );
+  const seq = useMemo(
+    () => calendarSafeSequence(buildSequence(props.format as DateProps['format']), spec, parts),
+    [props.format, spec, parts]
+  );
+  if (!value) {
+    // entity missing, unknown / unavailable, or not holding a time
+    return (
+      <div className="ha-date-text__container">
+        <div className="ha-date-text__unavailable">{props.source?.unavailableText ?? 'Unavailable'}</div>
+      </div>
+    );
+  }
   return (
     <div className="ha-date-text__container">
       {seq.map((token, i) => {
@@ -311,27 +150,59 @@ function Render(props: RenderProps<DateProps>) {
 export const config: ComponentConfig<DateProps> = {
   label: "DateText",
   fields: {
+    source: {
+      type: "object",
+      label: "Source",
+      description: "Format the current time, or a timestamp taken from a Home Assistant entity.",
+      section: { expanded: false },
+      objectFields: {
+        type: {
+          type: "select",
+          label: "Show",
+          default: "now",
+          options: [
+            { label: "Current date / time", value: "now" },
+            { label: "Entity timestamp", value: "entity" },
+          ],
+          description: "Entity timestamps use the same presets, toggles, pattern and timezone as the current time.",
+        },
+        entity: {
+          ...entityTimestampField(
+            "An input_datetime, timestamp / date sensor, a time attribute (e.g. next_alarm) or when the entity last changed."
+          ),
+          visible: (d) => d.source?.type === "entity",
+        },
+        unavailableText: {
+          type: "text",
+          label: "Unavailable Text",
+          default: "Unavailable",
+          visible: (d) => d.source?.type === "entity",
+          description: "Shown while the entity is unknown, unavailable or missing. Leave empty to show nothing.",
+        },
+      },
+    },
     format: {
       type: "object",
       label: "Format",
-      description: "Preset or custom combination of date parts.",
+      description: "Preset, custom combination of date parts or a format pattern.",
       section: { expanded: false },
       objectFields: {
         preset: {
           type: "custom",
           label: "Preset",
-          description: "Choose a predefined layout or Custom to build your own.",
+          description: "Choose a predefined layout, Custom to build your own or Pattern to type a format string.",
           default: "full_long",
           render({ value, onChange, id }) {
             const cfg = useConfig();
-            const timezone = cfg?.time_zone;
+            const timezone = resolveTimezone('user-settings', cfg?.time_zone);
             const locale = getLocale(cfg?.language);
             const today = new Date();
-            const optionsBase = Object.keys(PRESETS).map(key => {
-              const fmtConfig: Partial<DateProps['format']> = { preset: key as keyof typeof PRESETS };
-              const preview = key === 'custom' ? 'Custom (build below)' : composePreview(today, locale, timezone, fmtConfig);
-              return { preview, key };
+            const optionsBase = (Object.keys(DATE_PRESETS) as DatePresetKey[]).map(key => {
+              const preview = formatPreset(today, { locale, timeZone: timezone }, key);
+              return { preview, key: key as DateProps['format']['preset'] };
             });
+            optionsBase.push({ preview: 'Custom (build below)', key: 'custom' });
+            optionsBase.push({ preview: 'Pattern (type below)', key: 'pattern' });
             // detect duplicates and append key for clarity
             const counts: Record<string,string[]> = {};
             optionsBase.forEach(o => { (counts[o.preview] ||= []).push(o.key); });
@@ -360,6 +231,28 @@ export const config: ComponentConfig<DateProps> = {
             );
           },
         },
+        pattern: {
+          type: "text",
+          label: "Pattern",
+          default: "dddd, MMMM Do YYYY",
+          visible: (d) => d.format?.preset === "pattern",
+          description:
+            "Tokens: YYYY YY, M MM MMM MMMM, D DD Do, ddd dddd (or EEE EEEE), W (ISO week), HH hh mm ss A, G (era), r U (chinese year). Wrap literal text in [brackets], e.g. [Week] W · EEE d MMM.",
+        },
+        calendar: {
+          type: "select",
+          label: "Calendar",
+          default: "default",
+          options: CALENDAR_OPTIONS,
+          description: "Calendar system for year, month and day. Japanese years include the era (R7), numeric layouts fall back to spaces for calendars with month names (Hebrew).",
+        },
+        numberingSystem: {
+          type: "select",
+          label: "Digits",
+          default: "default",
+          options: NUMBERING_SYSTEM_OPTIONS,
+          description: "Digits for every number in the date, including ordinals and week numbers. Locale default follows your language (e.g. ar-EG or hi-IN-u-nu-deva).",
+        },
         year: {
           type: "switch",
           label: "Year",
@@ -486,13 +379,10 @@ export const config: ComponentConfig<DateProps> = {
       description: "Timezone override (defaults to user settings).",
       section: { expanded: false },
       objectFields: {
-        override: {
-          type: "select",
-          label: "Timezone",
-          description: "Select a specific timezone or use user settings.",
-          options: TIMEZONE_OPTIONS,
-          default: "user-settings",
-        },
+        override: timezoneOverrideField(
+          "Select a specific timezone or use user settings."
+        ),
+        timeSource: timeSourceField(),
       },
     },
   },
@@ -511,6 +401,7 @@ export const config: ComponentConfig<DateProps> = {
       }
       .ha-date-text__part { line-height: 1; }
       .ha-date-text__sep { line-height: 1; opacity: 0.75; }
+      .ha-date-text__unavailable { line-height: 1; opacity: 0.6; }
     `;
   },
   render: Render,
@@ -0,0 +1,203 @@
+import { useEffect, useRef } from "react";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+
+export type Digit = number | string;
+
+// Flip digit component (adapted from original FlipClockDigit)
+export type DigitUpdater = (next: Digit, opts?: { immediate?: boolean }) => void;
+export function FlipDigit({
+  initial,
+  className,
+  onRegister,
+}: {
+  initial: Digit;
+  className?: string;
+  onRegister: (update: DigitUpdater) => void;
+}) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const nextAboveRef = useRef<HTMLDivElement>(null);
+  const currentBelowRef = useRef<HTMLDivElement>(null);
+  const frontRef = useRef<HTMLDivElement>(null);
+  const backRef = useRef<HTMLDivElement>(null);
+  const currentRef = useRef<Digit>(initial);
+  const nextRef = useRef<Digit>(initial);
+  useEffect(() => {
+    const card = cardRef.current;
+    if (!card) return; // should exist
+    const updateDigit: DigitUpdater = (next, opts) => {
+      if (next === currentRef.current) return; // unchanged
+      if (opts?.immediate) {
+        currentRef.current = next;
+        nextRef.current = next;
+        if (nextAboveRef.current)
+          nextAboveRef.current.textContent = String(next);
+        if (backRef.current) backRef.current.textContent = String(next);
+        if (currentBelowRef.current)
+          currentBelowRef.current.textContent = String(next);
+        if (frontRef.current) frontRef.current.textContent = String(next);
+        return;
+      }
+      nextRef.current = next;
+      if (nextAboveRef.current)
+        nextAboveRef.current.textContent = String(nextRef.current);
+      if (backRef.current)
+        backRef.current.textContent = String(nextRef.current);
+      card.classList.add("ha-dc__flipped");
+    };
+    const handleTransitionEnd = () => {
+      currentRef.current = nextRef.current;
+      if (currentBelowRef.current)
+        currentBelowRef.current.textContent = String(currentRef.current);
+      if (frontRef.current)
+        frontRef.current.textContent = String(currentRef.current);
+      card.classList.remove("ha-dc__flipped");
+    };
+    card.addEventListener("transitionend", handleTransitionEnd);
+    onRegister(updateDigit);
+    return () => {
+      card.removeEventListener("transitionend", handleTransitionEnd);
+    };
+  }, [onRegister]);
+  return (
+    <div
+      ref={rootRef}
+      className={clsx(
+        "ha-dc__digit_block",
+        "ha-dc__digit_block_base",
+        className
+      )}
+      suppressHydrationWarning
+    >
+      <div ref={nextAboveRef} className={"ha-dc__next_above"}>
+        {initial}
+      </div>
+      <div ref={currentBelowRef} className={"ha-dc__current_below"}>
+        {initial}
+      </div>
+      <div ref={cardRef} className={clsx("ha-dc__card")}>
+        <div
+          ref={frontRef}
+          className={clsx("ha-dc__card_face", "ha-dc__card_face_front")}
+        >
+          {initial}
+        </div>
+        <div
+          ref={backRef}
+          className={clsx("ha-dc__card_face", "ha-dc__card_face_back")}
+        >
+          {initial}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A row of flip cards for `text`, one per character, flipping the cards whose
+ * character changed whenever `text` does. For components that re-render on
+ * every change instead of driving the cards imperatively like DigitalClock.
+ */
+export function FlipText({ text, className }: { text: string; className?: string }) {
+  const chars = Array.from(text);
+  // the cards render their first text only, every later change goes through
+  // the updaters; a changed digit count remounts them from the current text
+  const mountedRef = useRef(text);
+  if (Array.from(mountedRef.current).length !== chars.length) mountedRef.current = text;
+  const initialChars = Array.from(mountedRef.current);
+  const updatersRef = useRef<DigitUpdater[]>([]);
+  const registerRef = useRef<((update: DigitUpdater) => void)[]>([]);
+  const register = (idx: number) =>
+    (registerRef.current[idx] ||= (update) => {
+      updatersRef.current[idx] = update;
+    });
+  useEffect(() => {
+    chars.forEach((c, idx) => updatersRef.current[idx]?.(c));
+  }, [text]);
+  return (
+    <>
+      {chars.map((_, idx) => (
+        // keyed by length too, so a changed digit count remounts instead of flipping the wrong cards
+        <FlipDigit key={`${chars.length}-${idx}`} initial={initialChars[idx]} className={className} onRegister={register(idx)} />
+      ))}
+    </>
+  );
+}
+
+// Card, halves and flip transition for FlipDigit; sizes and colors come from
+// the --ha-dc-* custom properties set by the containing component
+export const flipDigitStyles = css`
+  .ha-dc__digit_block_base {
+    perspective: 200px;
+    position: relative;
+    font-size: var(--ha-dc-digit-font-size);
+    color: var(--ha-dc-digit-color);
+    font-weight: 500;
+    line-height: 0;
+    width: var(--ha-dc-digit-block-width);
+    height: var(--ha-dc-digit-block-height);
+    border-radius: var(--ha-dc-digit-block-radius);
+  }
+  .ha-dc__current_below,
+  .ha-dc__next_above {
+    position: absolute;
+    width: 100%;
+    height: 50%;
+    overflow: hidden;
+    display: flex;
+    justify-content: center;
+    background: var(--ha-dc-background);
+  }
+  .ha-dc__next_above {
+    align-items: flex-end;
+    top: 0;
+    border-top-left-radius: inherit;
+    border-top-right-radius: inherit;
+    border-bottom: var(--ha-dc-divider-height) solid
+      var(--ha-dc-divider-color);
+  }
+  .ha-dc__current_below {
+    align-items: flex-start;
+    bottom: 0;
+    border-bottom-left-radius: inherit;
+    border-bottom-right-radius: inherit;
+  }
+  .ha-dc__card {
+    position: relative;
+    z-index: 2;
+    width: 100%;
+    height: 50%;
+    transform-style: preserve-3d;
+    transform-origin: bottom;
+    transform: rotateX(0);
+    border-radius: inherit;
+  }
+  .ha-dc__card.ha-dc__flipped {
+    transition: transform 0.7s ease-in-out;
+    transform: rotateX(-180deg);
+  }
+  .ha-dc__card_face {
+    position: absolute;
+    width: 100%;
+    height: 100%;
+    display: flex;
+    justify-content: center;
+    overflow: hidden;
+    backface-visibility: hidden;
+    background: var(--ha-dc-background);
+  }
+  .ha-dc__card_face_front {
+    align-items: flex-end;
+    border-top-left-radius: inherit;
+    border-top-right-radius: inherit;
+    border-bottom: var(--ha-dc-divider-height) solid
+      var(--ha-dc-divider-color);
+  }
+  .ha-dc__card_face_back {
+    align-items: flex-start;
+    transform: rotateX(-180deg);
+    border-bottom-left-radius: inherit;
+    border-bottom-right-radius: inherit;
+  }
+`;
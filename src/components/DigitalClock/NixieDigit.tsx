@@ -0,0 +1,101 @@
+import { useEffect, useRef } from "react";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+import { digitGlyphs, digitValue } from "../../format/digits";
+import type { Digit, DigitUpdater } from "./FlipDigit";
+
+const LATIN_DIGITS = ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+// A nixie tube: all ten cathodes stacked in the glass, only the active one
+// glowing. Cathodes are in the same script as the digits (Devanagari tubes
+// for deva). Updates only move the lit class, the CSS cross-fades.
+export function NixieDigit({
+  initial,
+  className,
+  onRegister,
+}: {
+  initial: Digit;
+  className?: string;
+  onRegister: (update: DigitUpdater) => void;
+}) {
+  const cathodeRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const currentRef = useRef<Digit>(initial);
+  const glyphs = digitGlyphs(String(initial)) ?? LATIN_DIGITS;
+  const initialValue = digitValue(String(initial));
+  useEffect(() => {
+    onRegister((next) => {
+      if (next === currentRef.current) return; // unchanged
+      currentRef.current = next;
+      const value = digitValue(String(next));
+      cathodeRefs.current.forEach((el, i) => el?.classList.toggle("ha-dc__cathode--on", i === value));
+    });
+  }, [onRegister]);
+  return (
+    <div className={clsx("ha-dc__digit_block", "ha-dc__nixie_tube", className)} aria-hidden="true">
+      {glyphs.map((glyph, i) => (
+        <span
+          key={i}
+          ref={(el) => {
+            cathodeRefs.current[i] = el;
+          }}
+          className={clsx("ha-dc__cathode", i === initialValue && "ha-dc__cathode--on")}
+        >
+          {glyph}
+        </span>
+      ))}
+      <span className="ha-dc__nixie_mesh" />
+    </div>
+  );
+}
+
+// Glass, cathodes, glow and mesh for NixieDigit; sizes and colors come from
+// the --ha-dc-* custom properties set by the containing component
+export const nixieDigitStyles = css`
+  .ha-dc__nixie_tube {
+    position: relative;
+    width: var(--ha-dc-digit-block-width);
+    height: var(--ha-dc-digit-block-height);
+    border-radius: calc(var(--ha-dc-digit-block-width) / 2) calc(var(--ha-dc-digit-block-width) / 2)
+      var(--ha-dc-digit-block-radius) var(--ha-dc-digit-block-radius);
+    background: radial-gradient(ellipse at 50% 35%, rgba(255, 255, 255, 0.08), transparent 60%),
+      var(--ha-dc-nixie-tube-color);
+    box-shadow:
+      inset 0 0 0.5rem rgba(0, 0, 0, 0.6),
+      inset 0 0 0 1px rgba(255, 255, 255, 0.08);
+    overflow: hidden;
+  }
+  .ha-dc__cathode {
+    position: absolute;
+    inset: 0;
+    display: flex;
+    justify-content: center;
+    align-items: center;
+    font-size: var(--ha-dc-digit-font-size);
+    font-weight: 300;
+    line-height: 1;
+    color: transparent;
+    -webkit-text-stroke: 1px rgba(140, 120, 100, 0.18);
+    transition:
+      color var(--ha-dc-nixie-fade) ease,
+      text-shadow var(--ha-dc-nixie-fade) ease;
+  }
+  .ha-dc__cathode--on {
+    z-index: 1;
+    color: var(--ha-dc-nixie-glow-color);
+    -webkit-text-stroke: 0;
+    text-shadow:
+      0 0 0.1em var(--ha-dc-nixie-glow-color),
+      0 0 0.35em var(--ha-dc-nixie-glow-color),
+      0 0 0.8em color-mix(in srgb, var(--ha-dc-nixie-glow-color) 60%, transparent);
+  }
+  .ha-dc__nixie_mesh {
+    position: absolute;
+    inset: 0;
+    z-index: 2;
+    pointer-events: none;
+    display: var(--ha-dc-nixie-mesh);
+    background-image:
+      repeating-linear-gradient(60deg, rgba(0, 0, 0, 0.35) 0 1px, transparent 1px 5px),
+      repeating-linear-gradient(-60deg, rgba(0, 0, 0, 0.35) 0 1px, transparent 1px 5px);
+  }
+`;
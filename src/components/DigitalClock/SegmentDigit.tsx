@@ -0,0 +1,80 @@
+import { useEffect, useRef } from "react";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+import {
+  segmentPolygons,
+  segmentsFor,
+  Segment,
+  SegmentKind,
+  SEGMENT_HEIGHT,
+  SEGMENT_WIDTH,
+} from "../../segments";
+import type { Digit, DigitUpdater } from "./FlipDigit";
+
+// One seven- or fourteen-segment glyph. All segments are drawn once; an
+// update only toggles the lit class on the ones that change.
+export function SegmentDigit({
+  initial,
+  kind,
+  thickness,
+  className,
+  onRegister,
+}: {
+  initial: Digit;
+  kind: SegmentKind;
+  thickness: number;
+  className?: string;
+  onRegister: (update: DigitUpdater) => void;
+}) {
+  const segmentRefs = useRef<Partial<Record<Segment, SVGPolygonElement | null>>>({});
+  const currentRef = useRef<Digit>(initial);
+  const polygons = segmentPolygons(kind, thickness);
+  const initialLit = new Set(segmentsFor(String(initial), kind));
+  useEffect(() => {
+    onRegister((next) => {
+      if (next === currentRef.current) return; // unchanged
+      currentRef.current = next;
+      const lit = new Set(segmentsFor(String(next), kind));
+      (Object.keys(segmentRefs.current) as Segment[]).forEach((seg) =>
+        segmentRefs.current[seg]?.classList.toggle("ha-dc__seg--on", lit.has(seg))
+      );
+    });
+  }, [onRegister, kind]);
+  return (
+    <svg
+      className={clsx("ha-dc__digit_block", "ha-dc__segment_digit", className)}
+      viewBox={`0 0 ${SEGMENT_WIDTH} ${SEGMENT_HEIGHT}`}
+      aria-hidden="true"
+    >
+      {(Object.keys(polygons) as Segment[]).map((seg) => (
+        <polygon
+          key={seg}
+          ref={(el) => {
+            segmentRefs.current[seg] = el;
+          }}
+          className={clsx("ha-dc__seg", initialLit.has(seg) && "ha-dc__seg--on")}
+          points={polygons[seg]}
+        />
+      ))}
+    </svg>
+  );
+}
+
+// Segment glyph sizing, slant and glow; colors and sizes come from the
+// --ha-dc-* custom properties set by the containing component
+export const segmentDigitStyles = css`
+  .ha-dc__segment_digit {
+    height: var(--ha-dc-digit-font-size);
+    width: calc(var(--ha-dc-digit-font-size) * ${SEGMENT_WIDTH / SEGMENT_HEIGHT});
+    overflow: visible;
+    transform: skewX(calc(var(--ha-dc-segment-slant) * -1));
+  }
+  .ha-dc__seg {
+    fill: var(--ha-dc-segment-off-color);
+    transition: fill 0.15s ease;
+  }
+  .ha-dc__seg--on {
+    fill: var(--ha-dc-digit-color);
+    filter: drop-shadow(0 0 var(--ha-dc-segment-glow) var(--ha-dc-digit-color));
+  }
+`;
@@ -1,16 +1,26 @@
 import React, { useEffect, useRef } from "react";
 import { useConfig, useLocales } from "@hakit/core";
-import { TIMEZONE_OPTIONS } from "../../constants";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
 import { css } from "@emotion/react";
 import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
-import { getLocale } from "../../helpers";
+import { CALENDAR_OPTIONS, NUMBERING_SYSTEM_OPTIONS } from "../../constants";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { clockNow, subscribeClock, ClockTick, ClockUnit, TimeSource } from "../../clock";
+import { useTimeSource } from "../../hooks";
+import { formatDateParts, CalendarId, DatePartSpec, FormatContext, NumberingSystem } from "../../format";
+import { splitDigits } from "../../format/digits";
 import clsx from "clsx";
-export type Digit = number | string;
+import { FlipDigit, DigitUpdater, flipDigitStyles } from "./FlipDigit";
+import { SegmentDigit, segmentDigitStyles } from "./SegmentDigit";
+import { NixieDigit, nixieDigitStyles } from "./NixieDigit";
+import { segmentKindFor } from "../../segments";
+export type { Digit } from "./FlipDigit";
 
-type StyleMode = "flip" | "digital";
+type StyleMode = "flip" | "digital" | "segment" | "nixie";
 
 interface DigitalClockProps {
-  timezone: { override: string };
+  timezone: { override: string; timeSource?: TimeSource };
   show: {
     hourFormat: "12" | "24";
     year: boolean;
@@ -25,6 +35,8 @@ interface DigitalClockProps {
     hours_am_pm: boolean;
     hoursAmPmFormat?: "default" | "scaled"; // digital mode only
     hoursAmPmPosition?: "top" | "center" | "bottom"; // for scaled variant
+    calendar?: CalendarId | "default";
+    numberingSystem?: NumberingSystem | "default";
   };
   labels: {
     show: boolean;
@@ -44,99 +56,18 @@ interface DigitalClockProps {
     separatorColor: string;
     dividerColor: string;
     separator?: boolean;
+    segmentOffColor?: string;
+    segmentThickness?: number;
+    segmentSlant?: number;
+    segmentGlow?: UnitFieldValue;
+    nixieTubeColor?: string;
+    nixieGlowColor?: string;
+    nixieMesh?: boolean;
+    nixieFade?: number;
+    nixieTextFallback?: "segment" | "plain";
   };
 }
 
-// Flip digit component (adapted from original FlipClockDigit)
-type DigitUpdater = (next: Digit, opts?: { immediate?: boolean }) => void;
-function FlipDigit({
-  initial,
-  className,
-  onRegister,
-}: {
-  initial: Digit;
-  className?: string;
-  onRegister: (update: DigitUpdater) => void;
-}) {
-  const rootRef = useRef<HTMLDivElement>(null);
-  const cardRef = useRef<HTMLDivElement>(null);
-  const nextAboveRef = useRef<HTMLDivElement>(null);
-  const currentBelowRef = useRef<HTMLDivElement>(null);
-  const frontRef = useRef<HTMLDivElement>(null);
-  const backRef = useRef<HTMLDivElement>(null);
-  const currentRef = useRef<Digit>(initial);
-  const nextRef = useRef<Digit>(initial);
-  useEffect(() => {
-    const card = cardRef.current;
-    if (!card) return; // should exist
-    const updateDigit: DigitUpdater = (next, opts) => {
-      if (next === currentRef.current) return; // unchanged
-      if (opts?.immediate) {
-        currentRef.current = next;
-        nextRef.current = next;
-        if (nextAboveRef.current)
-          nextAboveRef.current.textContent = String(next);
-        if (backRef.current) backRef.current.textContent = String(next);
-        if (currentBelowRef.current)
-          currentBelowRef.current.textContent = String(next);
-        if (frontRef.current) frontRef.current.textContent = String(next);
-        return;
-      }
-      nextRef.current = next;
-      if (nextAboveRef.current)
-        nextAboveRef.current.textContent = String(nextRef.current);
-      if (backRef.current)
-        backRef.current.textContent = String(nextRef.current);
-      card.classList.add("ha-dc__flipped");
-    };
-    const handleTransitionEnd = () => {
-      currentRef.current = nextRef.current;
-      if (currentBelowRef.current)
-        currentBelowRef.current.textContent = String(currentRef.current);
-      if (frontRef.current)
-        frontRef.current.textContent = String(currentRef.current);
-      card.classList.remove("ha-dc__flipped");
-    };
-    card.addEventListener("transitionend", handleTransitionEnd);
-    onRegister(updateDigit);
-    return () => {
-      card.removeEventListener("transitionend", handleTransitionEnd);
-    };
-  }, [onRegister]);
-  return (
-    <div
-      ref={rootRef}
-      className={clsx(
-        "ha-dc__digit_block",
-        "ha-dc__digit_block_base",
-        className
-      )}
-      suppressHydrationWarning
-    >
-      <div ref={nextAboveRef} className={"ha-dc__next_above"}>
-        {initial}
-      </div>
-      <div ref={currentBelowRef} className={"ha-dc__current_below"}>
-        {initial}
-      </div>
-      <div ref={cardRef} className={clsx("ha-dc__card")}>
-        <div
-          ref={frontRef}
-          className={clsx("ha-dc__card_face", "ha-dc__card_face_front")}
-        >
-          {initial}
-        </div>
-        <div
-          ref={backRef}
-          className={clsx("ha-dc__card_face", "ha-dc__card_face_back")}
-        >
-          {initial}
-        </div>
-      </div>
-    </div>
-  );
-}
-
 const ORDERED_UNITS: UnitKey[] = [
   "year",
   "month",
@@ -158,7 +89,6 @@ const LABELS = {
 } as const;
 
 // Helpers (moved outside Render for reuse)
-const pad2 = (v: string) => (v.length === 1 ? `0${v}` : v);
 const isWeekdayFormat = (
   f: DigitalClockProps["show"]["dayFormat"]
 ): f is "short" | "long" | "narrow" =>
@@ -173,58 +103,41 @@ type UnitKey =
   | "second"
   | "hours_am_pm";
 
-function buildDateFormatter(
-  locale: string | undefined,
-  timezone: string | undefined,
-  show: DigitalClockProps["show"]
-) {
-  const hourFormat = show.hourFormat;
-  const yearOpt = show.year ? show.yearFormat || "2-digit" : undefined;
-  const monthOpt = show.month ? show.monthFormat || "2-digit" : undefined;
+function buildPartSpec(show: DigitalClockProps["show"]): DatePartSpec {
+  // "day" shows the weekday name for short/long/narrow, day of month for 2-digit
   const dayIsWeekday = show.day && isWeekdayFormat(show.dayFormat);
-  const dayOpt = show.day
-    ? show.dayFormat === "2-digit"
-      ? "2-digit"
-      : undefined
-    : undefined;
-  // Only assign weekday when format is one of short/long/narrow
-  const weekdayOpt =
-    dayIsWeekday && isWeekdayFormat(show.dayFormat)
-      ? show.dayFormat
-      : undefined;
-  const opts: Intl.DateTimeFormatOptions = {
-    timeZone: timezone,
-    hourCycle: hourFormat === "24" ? "h23" : "h12",
-    year: yearOpt,
-    month: monthOpt,
-    day: dayOpt,
-    weekday: weekdayOpt, // no cast needed
+  return {
+    hourCycle: show.hourFormat === "24" ? "h23" : "h12",
+    year: show.year ? show.yearFormat || "2-digit" : undefined,
+    month: show.month ? show.monthFormat || "2-digit" : undefined,
+    day: show.day && show.dayFormat === "2-digit" ? "2-digit" : undefined,
+    weekday:
+      dayIsWeekday && isWeekdayFormat(show.dayFormat)
+        ? show.dayFormat
+        : undefined,
     hour: show.hour ? "2-digit" : undefined,
     minute: show.minute ? "2-digit" : undefined,
     second: show.second ? "2-digit" : undefined,
   };
-  return new Intl.DateTimeFormat(locale, opts);
 }
 
-function extractParts(
-  d: Date,
-  fmt: Intl.DateTimeFormat
-): Record<string, string> {
-  const out: Record<string, string> = {};
-  for (const p of fmt.formatToParts(d)) {
-    if (
-      p.type === "year" ||
-      p.type === "month" ||
-      p.type === "day" ||
-      p.type === "hour" ||
-      p.type === "minute" ||
-      p.type === "second"
-    )
-      out[p.type] = p.value;
-    if (p.type === "weekday") out["day"] = p.value; // map weekday to day
-    if (p.type === "dayPeriod") out["hours_am_pm"] = p.value;
-  }
-  return out;
+function unitValues(
+  now: Date,
+  enabled: UnitKey[],
+  ctx: FormatContext,
+  spec: DatePartSpec
+): [UnitKey, string[]][] {
+  const parts = formatDateParts(now, ctx, spec);
+  return enabled.map((k) => {
+    const val =
+      k === "hours_am_pm"
+        ? parts.dayPeriod
+        : k === "day"
+          ? parts.weekday || parts.day
+          : parts[k];
+    // one card / cell per character, whatever script the digits are in
+    return [k, splitDigits(val || "")] as [UnitKey, string[]];
+  });
 }
 
 function enabledUnits(show: DigitalClockProps["show"]): UnitKey[] {
@@ -236,76 +149,24 @@ function enabledUnits(show: DigitalClockProps["show"]): UnitKey[] {
   });
 }
 
-function buildInitialSections(
-  now: Date,
-  enabled: UnitKey[],
-  show: DigitalClockProps["show"],
-  fmt: Intl.DateTimeFormat
-): [UnitKey, string[]][] {
-  const parts = extractParts(now, fmt);
-  return enabled.map((k) => {
-    let val =
-      k === "hours_am_pm"
-        ? parts[k] || (now.getHours() < 12 ? "AM" : "PM")
-        : parts[k] || "";
-    if (
-      k === "month" &&
-      show.month &&
-      (show.monthFormat === undefined || show.monthFormat === "2-digit") &&
-      val.length === 1
-    )
-      val = pad2(val);
-    if (
-      k === "day" &&
-      show.day &&
-      show.dayFormat === "2-digit" &&
-      val.length === 1
-    )
-      val = pad2(val);
-    if (["hour", "minute", "second"].includes(k) && val.length === 1)
-      val = pad2(val);
-    return [k, val.split("")] as [UnitKey, string[]];
-  });
-}
-
 function applyTick(
   enabled: UnitKey[],
-  show: DigitalClockProps["show"],
   digitUpdatersRef: React.RefObject<Record<string, DigitUpdater[]>>,
   firstRunRef: React.RefObject<boolean>,
-  fmt: Intl.DateTimeFormat
+  ctx: FormatContext,
+  spec: DatePartSpec,
+  current: Date,
+  resync: boolean
 ) {
-  const now = firstRunRef.current ? undefined : new Date();
-  const current = now || new Date();
-  const parts = extractParts(current, fmt);
-  enabled.forEach((k) => {
-    let val =
-      k === "hours_am_pm"
-        ? parts[k] || (current.getHours() < 12 ? "AM" : "PM")
-        : parts[k] || "";
-    if (
-      k === "month" &&
-      show.month &&
-      (show.monthFormat === undefined || show.monthFormat === "2-digit") &&
-      val.length === 1
-    )
-      val = pad2(val);
-    if (
-      k === "day" &&
-      show.day &&
-      show.dayFormat === "2-digit" &&
-      val.length === 1
-    )
-      val = pad2(val);
-    if (["hour", "minute", "second"].includes(k) && val.length === 1)
-      val = pad2(val);
-    const digits = val.split("");
+  // skip the flip animation on the first paint and after a clock jump
+  const immediate = firstRunRef.current || resync;
+  unitValues(current, enabled, ctx, spec).forEach(([k, digits]) => {
     const updaters = digitUpdatersRef.current[k];
     if (!updaters) return;
     digits.forEach((d, idx) => {
       const updater = updaters[idx];
       if (!updater) return;
-      updater(d, firstRunRef.current ? { immediate: true } : undefined);
+      updater(d, immediate ? { immediate: true } : undefined);
     });
   });
   if (firstRunRef.current) firstRunRef.current = false;
@@ -314,10 +175,9 @@ function applyTick(
 function Render(props: RenderProps<DigitalClockProps>) {
   const cfg = useConfig();
   const locales = useLocales();
-  const timezone =
-    props.timezone.override === "user-settings"
-      ? cfg?.time_zone
-      : props.timezone.override;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
   const { show } = props;
   const hourFormat = show.hourFormat;
   const { labels, clock } = props;
@@ -325,33 +185,38 @@ function Render(props: RenderProps<DigitalClockProps>) {
   const containerRef = useRef<HTMLDivElement>(null);
   const digitUpdatersRef = useRef<Record<string, DigitUpdater[]>>({});
   const firstRunRef = useRef(true);
-  const mountNowRef = useRef<Date>(new Date());
+  const mountNowRef = useRef<Date>(clockNow(source));
   const locale = getLocale(cfg?.language);
-  const fmt = buildDateFormatter(locale, timezone, show);
+  const ctx: FormatContext = {
+    locale,
+    timeZone: timezone,
+    calendar: show.calendar === "default" ? undefined : show.calendar,
+    numberingSystem:
+      show.numberingSystem === "default" ? undefined : show.numberingSystem,
+  };
+  const spec = buildPartSpec(show);
   const enabled = enabledUnits(show);
-  const initSections = buildInitialSections(
-    mountNowRef.current,
-    enabled,
-    show,
-    fmt
-  );
+  const initSections = unitValues(mountNowRef.current, enabled, ctx, spec);
+  // every digit registers again on commit; start clean so a mode switch
+  // doesn't leave updaters for unmounted cards in front of the new ones
+  digitUpdatersRef.current = {};
+  // only wake as often as the smallest visible unit changes
+  const tickUnit: ClockUnit = show.second
+    ? "second"
+    : show.minute || show.hour || show.hours_am_pm
+      ? "minute"
+      : "day";
   useEffect(() => {
-    const tick = () =>
-      applyTick(enabled, show, digitUpdatersRef, firstRunRef, fmt);
-    // schedule initial sync at exact next second boundary for stability
-    const nowMs = mountNowRef.current.getTime();
-    const delay = 1000 - (nowMs % 1000);
-    const intervalRef = { current: 0 };
-    const timeoutId = window.setTimeout(() => {
-      tick();
-      intervalRef.current = window.setInterval(tick, 1000);
-    }, delay);
-    return () => {
-      clearTimeout(timeoutId);
-      if (intervalRef.current) clearInterval(intervalRef.current);
-    };
+    const tick = ({ now, resync }: ClockTick) =>
+      applyTick(enabled, digitUpdatersRef, firstRunRef, ctx, spec, now, resync);
+    // rendered digits come from mount time, bring them up to date straight away
+    tick({ now: clockNow(source), resync: true });
+    return subscribeClock(tickUnit, tick, timezone, source);
   }, [
+    locale,
     timezone,
+    source,
+    tickUnit,
     hourFormat,
     enabled.join(":"),
     show.year,
@@ -366,6 +231,8 @@ function Render(props: RenderProps<DigitalClockProps>) {
     show.hours_am_pm,
     show.hoursAmPmFormat,
     show.hoursAmPmPosition,
+    show.calendar,
+    show.numberingSystem,
     styleMode,
   ]);
   return (
@@ -374,7 +241,7 @@ function Render(props: RenderProps<DigitalClockProps>) {
       className={clsx(
         "ha-dc__container",
         labels.show && "ha-dc__labels_on",
-        styleMode === "flip" ? "ha-dc__mode_flip" : "ha-dc__mode_digital"
+        `ha-dc__mode_${styleMode}`
       )}
     >
       {initSections.map(([key, digits], idx) => {
@@ -383,6 +250,15 @@ function Render(props: RenderProps<DigitalClockProps>) {
           key === "hours_am_pm" &&
           styleMode === "digital" &&
           show.hoursAmPmFormat === "scaled";
+        // digits get seven segments, AM/PM and names fourteen
+        const segmentKind = segmentKindFor(digits);
+        // tubes only have digit cathodes, text units fall back
+        const digitMode: StyleMode =
+          styleMode === "nixie" && segmentKind === 14
+            ? clock.nixieTextFallback === "plain"
+              ? "digital"
+              : "segment"
+            : styleMode;
         return (
           <React.Fragment key={key}>
             <div
@@ -395,7 +271,33 @@ function Render(props: RenderProps<DigitalClockProps>) {
             >
               <div className="ha-dc__digits_row">
                 {digits.map((d, i) => {
-                  if (styleMode === "flip") {
+                  if (digitMode === "nixie") {
+                    return (
+                      <NixieDigit
+                        key={i}
+                        initial={d}
+                        className={`ha-dc__nixie_tube--${key}`}
+                        onRegister={(fn) => {
+                          (digitUpdatersRef.current[key] ||= []).push(fn);
+                        }}
+                      />
+                    );
+                  }
+                  if (digitMode === "segment") {
+                    return (
+                      <SegmentDigit
+                        key={i}
+                        initial={d}
+                        kind={segmentKind}
+                        thickness={clock.segmentThickness ?? 10}
+                        className={`ha-dc__segment_digit--${key}`}
+                        onRegister={(fn) => {
+                          (digitUpdatersRef.current[key] ||= []).push(fn);
+                        }}
+                      />
+                    );
+                  }
+                  if (digitMode === "flip") {
                     return (
                       <FlipDigit
                         key={i}
@@ -542,6 +444,23 @@ export const config: ComponentConfig<DigitalClockProps> = {
           ],
           visible: (data) => data.show?.day === true,
         },
+        calendar: {
+          type: "select",
+          label: "Calendar",
+          description: "Calendar system for the year, month and day units.",
+          default: "default",
+          options: CALENDAR_OPTIONS,
+          visible: (data) =>
+            data.show?.year === true || data.show?.month === true || data.show?.day === true,
+        },
+        numberingSystem: {
+          type: "select",
+          label: "Digits",
+          description:
+            "Digits on the cards, e.g. Eastern Arabic or Devanagari. Locale default follows your language.",
+          default: "default",
+          options: NUMBERING_SYSTEM_OPTIONS,
+        },
         hour: {
           type: "switch",
           label: "Hour",
@@ -648,11 +567,13 @@ export const config: ComponentConfig<DigitalClockProps> = {
         styleMode: {
           type: "select",
           label: "Mode",
-          description: "Select animated Flip or plain Digital style.",
+          description: "Select animated Flip, plain Digital, LED Segment or Nixie tube style.",
           default: "digital",
           options: [
             { label: "Flip", value: "flip" },
             { label: "Digital", value: "digital" },
+            { label: "Segment", value: "segment" },
+            { label: "Nixie", value: "nixie" },
           ],
         },
         spacing: {
@@ -665,23 +586,23 @@ export const config: ComponentConfig<DigitalClockProps> = {
         digitWidth: {
           type: "unit",
           label: "Digit Width",
-          description: "Width of each flip card.",
+          description: "Width of each flip card or nixie tube.",
           default: "2.875rem",
-          visible: (data) => data.clock?.styleMode === "flip",
+          visible: (data) => data.clock?.styleMode === "flip" || data.clock?.styleMode === "nixie",
         },
         digitHeight: {
           type: "unit",
           label: "Digit Height",
-          description: "Height of each flip card.",
+          description: "Height of each flip card or nixie tube.",
           default: "5rem",
-          visible: (data) => data.clock?.styleMode === "flip",
+          visible: (data) => data.clock?.styleMode === "flip" || data.clock?.styleMode === "nixie",
         },
         digitRadius: {
           type: "unit",
           label: "Digit Radius",
-          description: "Corner radius of flip cards.",
+          description: "Corner radius of flip cards (base of nixie tubes).",
           default: "0.25rem",
-          visible: (data) => data.clock?.styleMode === "flip",
+          visible: (data) => data.clock?.styleMode === "flip" || data.clock?.styleMode === "nixie",
         },
         digitFontSize: {
           type: "unit",
@@ -700,9 +621,84 @@ export const config: ComponentConfig<DigitalClockProps> = {
         digitColor: {
           type: "color",
           label: "Digit Color",
-          description: "Color of the numbers.",
+          description: "Color of the numbers (lit segments in Segment mode).",
           default: "var(--clr-primary-a90)",
         },
+        segmentOffColor: {
+          type: "color",
+          label: "Unlit Segment Color",
+          description: "Color of the segments that are off.",
+          default: "var(--clr-surface-a20)",
+          visible: (data) =>
+            data.clock?.styleMode === "segment" ||
+            (data.clock?.styleMode === "nixie" && data.clock?.nixieTextFallback !== "plain"),
+        },
+        segmentThickness: {
+          type: "number",
+          label: "Segment Thickness",
+          description: "Width of each segment, relative to a digit 100 high.",
+          default: 10,
+          min: 4,
+          max: 18,
+          visible: (data) => data.clock?.styleMode === "segment",
+        },
+        segmentSlant: {
+          type: "number",
+          label: "Segment Slant",
+          description: "Lean of the digits in degrees.",
+          default: 8,
+          min: 0,
+          max: 20,
+          visible: (data) => data.clock?.styleMode === "segment",
+        },
+        segmentGlow: {
+          type: "unit",
+          label: "Segment Glow",
+          description: "Blur of the glow around lit segments, 0 for none.",
+          default: "0.25rem",
+          visible: (data) => data.clock?.styleMode === "segment",
+        },
+        nixieTubeColor: {
+          type: "color",
+          label: "Tube Color",
+          description: "Color of the glass behind the cathodes.",
+          default: "rgba(30, 22, 18, 0.9)",
+          visible: (data) => data.clock?.styleMode === "nixie",
+        },
+        nixieGlowColor: {
+          type: "color",
+          label: "Glow Color",
+          description: "Color of the lit cathode and its glow.",
+          default: "#ff9a3c",
+          visible: (data) => data.clock?.styleMode === "nixie",
+        },
+        nixieMesh: {
+          type: "switch",
+          label: "Mesh",
+          description: "Draw the anode mesh over the tube.",
+          default: true,
+          visible: (data) => data.clock?.styleMode === "nixie",
+        },
+        nixieFade: {
+          type: "number",
+          label: "Cross-fade (ms)",
+          description: "How long one cathode fades into the next.",
+          default: 250,
+          min: 0,
+          max: 2000,
+          visible: (data) => data.clock?.styleMode === "nixie",
+        },
+        nixieTextFallback: {
+          type: "select",
+          label: "Text Style",
+          description: "Tubes only have digits; AM/PM and names use this style instead.",
+          default: "segment",
+          options: [
+            { label: "Segment", value: "segment" },
+            { label: "Plain", value: "plain" },
+          ],
+          visible: (data) => data.clock?.styleMode === "nixie",
+        },
         separator: {
           type: "switch",
           label: "Separator",
@@ -731,14 +727,10 @@ export const config: ComponentConfig<DigitalClockProps> = {
       description: "Timezone settings for the clock.",
       section: { expanded: false },
       objectFields: {
-        override: {
-          type: "select",
-          label: "Timezone",
-          description:
-            "Select a specific timezone or use your Home Assistant user setting.",
-          options: TIMEZONE_OPTIONS,
-          default: "user-settings",
-        },
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
       },
     },
   },
@@ -759,6 +751,13 @@ export const config: ComponentConfig<DigitalClockProps> = {
       data.props.clock.digitHeight = "5rem";
       data.props.clock.spacing = "0.5rem";
     }
+    // tubes need the card height back after digital mode shrank it
+    if (
+      data.props.clock.styleMode === "nixie" &&
+      lastData?.props?.clock?.styleMode === "digital"
+    ) {
+      data.props.clock.digitHeight = "5rem";
+    }
     return data;
   },
   styles(props) {
@@ -783,6 +782,13 @@ export const config: ComponentConfig<DigitalClockProps> = {
         --ha-dc-shadow: 0 0 2px 1px rgba(0, 0, 0, 0.1);
         --ha-dc-separator-size: 5px;
         --ha-dc-separator-color: ${props.clock.separatorColor};
+        --ha-dc-segment-off-color: ${props.clock.segmentOffColor ?? "var(--clr-surface-a20)"};
+        --ha-dc-segment-slant: ${props.clock.segmentSlant ?? 8}deg;
+        --ha-dc-segment-glow: ${props.clock.segmentGlow ?? "0.25rem"};
+        --ha-dc-nixie-tube-color: ${props.clock.nixieTubeColor ?? "rgba(30, 22, 18, 0.9)"};
+        --ha-dc-nixie-glow-color: ${props.clock.nixieGlowColor ?? "#ff9a3c"};
+        --ha-dc-nixie-mesh: ${props.clock.nixieMesh === false ? "none" : "block"};
+        --ha-dc-nixie-fade: ${props.clock.nixieFade ?? 250}ms;
         user-select: none;
         cursor: default;
         display: flex;
@@ -818,19 +824,12 @@ export const config: ComponentConfig<DigitalClockProps> = {
       &.ha-dc__container:not(.ha-dc__labels_on) .ha-dc__unit_label {
         display: none;
       }
-      .ha-dc__digit_block_base {
-        perspective: 200px;
-        position: relative;
-        font-size: var(--ha-dc-digit-font-size);
-        color: var(--ha-dc-digit-color);
-        font-weight: 500;
-        line-height: 0;
-        width: var(--ha-dc-digit-block-width);
-        height: var(--ha-dc-digit-block-height);
-        border-radius: var(--ha-dc-digit-block-radius);
-      }
+      ${flipDigitStyles}
+      ${segmentDigitStyles}
+      ${nixieDigitStyles}
       /* digital mode simple digits */
-      &.ha-dc__mode_digital .ha-dc__digit_digital {
+      &.ha-dc__mode_digital .ha-dc__digit_digital,
+      &.ha-dc__mode_nixie .ha-dc__digit_digital {
         display: inline-flex;
         justify-content: center;
         align-items: center;
@@ -852,73 +851,12 @@ export const config: ComponentConfig<DigitalClockProps> = {
       &.ha-dc__mode_digital .ha-dc__card_face {
         display: none !important;
       }
-      .ha-dc__current_below,
-      .ha-dc__next_above {
-        position: absolute;
-        width: 100%;
-        height: 50%;
-        overflow: hidden;
-        display: flex;
-        justify-content: center;
-        background: var(--ha-dc-background);
-      }
-      .ha-dc__next_above {
-        align-items: flex-end;
-        top: 0;
-        border-top-left-radius: inherit;
-        border-top-right-radius: inherit;
-        border-bottom: var(--ha-dc-divider-height) solid
-          var(--ha-dc-divider-color);
-      }
-      .ha-dc__current_below {
-        align-items: flex-start;
-        bottom: 0;
-        border-bottom-left-radius: inherit;
-        border-bottom-right-radius: inherit;
-      }
       /* ensure flip-only structural pieces excluded from digital mode visually */
       &.ha-dc__mode_digital .ha-dc__divider,
       &.ha-dc__mode_digital .ha-dc__current_below,
       &.ha-dc__mode_digital .ha-dc__next_above {
         display: none;
       }
-      .ha-dc__card {
-        position: relative;
-        z-index: 2;
-        width: 100%;
-        height: 50%;
-        transform-style: preserve-3d;
-        transform-origin: bottom;
-        transform: rotateX(0);
-        border-radius: inherit;
-      }
-      .ha-dc__card.ha-dc__flipped {
-        transition: transform 0.7s ease-in-out;
-        transform: rotateX(-180deg);
-      }
-      .ha-dc__card_face {
-        position: absolute;
-        width: 100%;
-        height: 100%;
-        display: flex;
-        justify-content: center;
-        overflow: hidden;
-        backface-visibility: hidden;
-        background: var(--ha-dc-background);
-      }
-      .ha-dc__card_face_front {
-        align-items: flex-end;
-        border-top-left-radius: inherit;
-        border-top-right-radius: inherit;
-        border-bottom: var(--ha-dc-divider-height) solid
-          var(--ha-dc-divider-color);
-      }
-      .ha-dc__card_face_back {
-        align-items: flex-start;
-        transform: rotateX(-180deg);
-        border-bottom-left-radius: inherit;
-        border-bottom-right-radius: inherit;
-      }
       .ha-dc__colon {
         height: var(--ha-dc-digit-block-height);
         display: flex;
@@ -946,6 +884,17 @@ export const config: ComponentConfig<DigitalClockProps> = {
           align-self: start;
         }
       }
+      &.ha-dc__mode_segment {
+        .ha-dc__colon {
+          height: var(--ha-dc-digit-font-size);
+          align-self: start;
+        }
+      }
+      /* neon dots between the tubes */
+      &.ha-dc__mode_nixie .ha-dc__colon::before,
+      &.ha-dc__mode_nixie .ha-dc__colon::after {
+        box-shadow: 0 0 6px var(--ha-dc-separator-color);
+      }
 
       /* scaled AM/PM (digital mode) */
       .ha-dc__ampm_scaled {
@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig } from "@hakit/core";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { NUMBERING_SYSTEM_OPTIONS } from "../../constants";
+import { createDateFormatter, formatDateParts, formatDigits, NumberingSystem } from "../../format";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import { addMonths, localeFirstDay, monthGrid, Weekday } from "../../monthGrid";
+import { getZonedParts } from "../../timezone";
+
+interface MonthCalendarProps {
+  layout: {
+    firstDay: "locale" | "1" | "2" | "3" | "4" | "5" | "6" | "7";
+    weekdayFormat: "short" | "narrow";
+    showWeekNumbers: boolean;
+    showOtherMonths: boolean;
+    showNavigation: boolean;
+    numberingSystem?: NumberingSystem | "default";
+  };
+  appearance: {
+    fontSize: UnitFieldValue;
+    cellSize: UnitFieldValue;
+    color: string;
+    headerColor: string;
+    todayBackground: string;
+    todayColor: string;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+const WEEKDAY_LABELS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// 2024-01-01 is a Monday; formatted in UTC so the weekday can't shift
+function weekdayReference(weekday: Weekday): Date {
+  return new Date(Date.UTC(2024, 0, weekday));
+}
+
+function Render(props: RenderProps<MonthCalendarProps>) {
+  const cfg = useConfig();
+  const locale = getLocale(cfg?.language);
+  const { layout } = props;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  // today's highlight moves at midnight in the selected timezone
+  const { now } = useClock("day", timezone, source);
+  const [offset, setOffset] = useState(0);
+  const today = getZonedParts(now, timezone);
+  const shown = addMonths(today.year, today.month, offset);
+  const firstDay = layout.firstDay === "locale" ? localeFirstDay(locale) : (Number(layout.firstDay) as Weekday);
+  const weeks = monthGrid(shown.year, shown.month, firstDay);
+  const numberingSystem = layout.numberingSystem === "default" ? undefined : layout.numberingSystem;
+  const digits = { locale, numberingSystem };
+  const title = createDateFormatter(
+    { locale, timeZone: "UTC", numberingSystem },
+    { year: "numeric", month: "long" }
+  ).format(new Date(Date.UTC(shown.year, shown.month - 1, 1)));
+  const weekdays = weeks[0].days.map((d) => ({
+    weekday: d.weekday,
+    label:
+      formatDateParts(weekdayReference(d.weekday), { locale, timeZone: "UTC" }, { weekday: layout.weekdayFormat })
+        .weekday || "",
+  }));
+
+  return (
+    <div className={clsx("ha-mc__container", layout.showWeekNumbers && "ha-mc__with_weeks")}>
+      <div className="ha-mc__header">
+        {layout.showNavigation && (
+          <button type="button" className="ha-mc__nav ha-mc__nav--prev" aria-label="Previous month" onClick={() => setOffset(offset - 1)}>
+            ‹
+          </button>
+        )}
+        <button
+          type="button"
+          className="ha-mc__title"
+          disabled={offset === 0}
+          title={offset === 0 ? undefined : "Back to this month"}
+          onClick={() => setOffset(0)}
+          suppressHydrationWarning
+        >
+          {title}
+        </button>
+        {layout.showNavigation && (
+          <button type="button" className="ha-mc__nav ha-mc__nav--next" aria-label="Next month" onClick={() => setOffset(offset + 1)}>
+            ›
+          </button>
+        )}
+      </div>
+      <div className="ha-mc__grid" role="grid" aria-label={title}>
+        <div className="ha-mc__row ha-mc__row--weekdays" role="row">
+          {layout.showWeekNumbers && <div className="ha-mc__week" aria-hidden="true" />}
+          {weekdays.map((w) => (
+            <div key={w.weekday} className="ha-mc__weekday" role="columnheader" title={WEEKDAY_LABELS[w.weekday - 1]}>
+              {w.label}
+            </div>
+          ))}
+        </div>
+        {weeks.map((week) => (
+          <div key={`${week.days[0].month}-${week.days[0].day}`} className="ha-mc__row" role="row">
+            {layout.showWeekNumbers && (
+              <div className="ha-mc__week" role="rowheader">
+                {formatDigits(week.week, digits)}
+              </div>
+            )}
+            {week.days.map((d) => {
+              const isToday = d.year === today.year && d.month === today.month && d.day === today.day;
+              return (
+                <div
+                  key={`${d.month}-${d.day}`}
+                  role="gridcell"
+                  aria-current={isToday ? "date" : undefined}
+                  className={clsx(
+                    "ha-mc__day",
+                    `ha-mc__day--wd${d.weekday}`,
+                    !d.inMonth && "ha-mc__day--other",
+                    isToday && "ha-mc__day--today"
+                  )}
+                >
+                  {d.inMonth || layout.showOtherMonths ? formatDigits(d.day, digits) : ""}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export const config: ComponentConfig<MonthCalendarProps> = {
+  label: "MonthCalendar",
+  fields: {
+    layout: {
+      type: "object",
+      label: "Layout",
+      description: "Week start, headers and what the grid shows.",
+      section: { expanded: false },
+      objectFields: {
+        firstDay: {
+          type: "select",
+          label: "First Day of Week",
+          default: "locale",
+          options: [
+            { label: "From language", value: "locale" },
+            ...WEEKDAY_LABELS.map((label, idx) => ({ label, value: String(idx + 1) as MonthCalendarProps["layout"]["firstDay"] })),
+          ],
+          description: "Follows your Home Assistant language (Sunday for en-US, Monday for en-GB) unless set here.",
+        },
+        weekdayFormat: {
+          type: "select",
+          label: "Weekday Format",
+          default: "short",
+          options: [
+            { label: "Short", value: "short" },
+            { label: "Narrow", value: "narrow" },
+          ],
+          description: "Short (Mon) or narrow (M) column headers.",
+        },
+        showWeekNumbers: {
+          type: "switch",
+          label: "Week Numbers",
+          default: false,
+          description: "ISO week number at the start of each row.",
+        },
+        showOtherMonths: {
+          type: "switch",
+          label: "Adjacent Days",
+          default: true,
+          description: "Fill the first and last rows with days of the previous and next month.",
+        },
+        showNavigation: {
+          type: "switch",
+          label: "Navigation",
+          default: true,
+          description: "Previous / next month buttons; click the title to return to this month.",
+        },
+        numberingSystem: {
+          type: "select",
+          label: "Digits",
+          default: "default",
+          options: NUMBERING_SYSTEM_OPTIONS,
+          description: "Digits for days, week numbers and the year. Locale default follows your language.",
+        },
+      },
+    },
+    appearance: {
+      type: "object",
+      label: "Appearance",
+      description: "Sizes and colors.",
+      section: { expanded: false },
+      objectFields: {
+        fontSize: { type: "unit", label: "Font Size", default: "1rem", description: "Base font size." },
+        cellSize: { type: "unit", label: "Cell Size", default: "2.25em", description: "Width & height of each day." },
+        color: {
+          type: "color",
+          label: "Text Color",
+          default: "var(--clr-on-surface-a0, currentColor)",
+          description: "Color of the days and title.",
+        },
+        headerColor: {
+          type: "color",
+          label: "Header Color",
+          default: "var(--clr-on-surface-a50, currentColor)",
+          description: "Color of the weekday headers and week numbers.",
+        },
+        todayBackground: {
+          type: "color",
+          label: "Today Background",
+          default: "var(--clr-primary-a0)",
+          description: "Fill behind today's date.",
+        },
+        todayColor: {
+          type: "color",
+          label: "Today Text Color",
+          default: "var(--clr-on-primary-a0, #fff)",
+          description: "Color of today's date.",
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone that decides which day is today.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { appearance } = props;
+    return css`
+      &.ha-mc__container {
+        font-size: ${appearance.fontSize};
+        color: ${appearance.color};
+        display: inline-flex;
+        flex-direction: column;
+        gap: 0.5em;
+        user-select: none;
+      }
+      .ha-mc__header {
+        display: flex;
+        align-items: center;
+        gap: 0.5em;
+      }
+      .ha-mc__title,
+      .ha-mc__nav {
+        font: inherit;
+        color: inherit;
+        background: none;
+        border: none;
+        padding: 0.25em 0.5em;
+        border-radius: 0.375em;
+        cursor: pointer;
+      }
+      .ha-mc__title {
+        flex: 1;
+        font-weight: 600;
+        text-align: center;
+      }
+      .ha-mc__title:disabled {
+        cursor: default;
+      }
+      .ha-mc__nav {
+        font-size: 1.25em;
+        line-height: 1;
+      }
+      .ha-mc__nav:hover,
+      .ha-mc__title:not(:disabled):hover {
+        background: var(--clr-surface-a10);
+      }
+      .ha-mc__grid {
+        display: flex;
+        flex-direction: column;
+      }
+      .ha-mc__row {
+        display: grid;
+        grid-template-columns: repeat(7, ${appearance.cellSize});
+      }
+      &.ha-mc__with_weeks .ha-mc__row {
+        grid-template-columns: ${appearance.cellSize} repeat(7, ${appearance.cellSize});
+      }
+      .ha-mc__day,
+      .ha-mc__weekday,
+      .ha-mc__week {
+        height: ${appearance.cellSize};
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-variant-numeric: tabular-nums;
+      }
+      .ha-mc__weekday,
+      .ha-mc__week {
+        color: ${appearance.headerColor};
+        font-size: 0.8em;
+      }
+      .ha-mc__weekday {
+        font-weight: 600;
+      }
+      .ha-mc__day--other {
+        opacity: 0.4;
+      }
+      .ha-mc__day--today {
+        background: ${appearance.todayBackground};
+        color: ${appearance.todayColor};
+        border-radius: 50%;
+        font-weight: 600;
+      }
+    `;
+  },
+  render: Render,
+};
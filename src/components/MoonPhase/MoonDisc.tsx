@@ -0,0 +1,67 @@
+import { useClock } from "../../hooks";
+import { TimeSource } from "../../clock";
+import { moonIllumination } from "../../moon";
+
+export type Hemisphere = "auto" | "north" | "south";
+
+/** Whether to draw the moon as seen from the southern hemisphere; "auto" goes by the home latitude. */
+export function isSouthern(hemisphere: Hemisphere | undefined, latitude: number | undefined): boolean {
+  if (hemisphere === "south") return true;
+  if (hemisphere === "north") return false;
+  return typeof latitude === "number" && latitude < 0;
+}
+
+export interface MoonDiscProps {
+  phase: number; // 0-1, waxing below 0.5
+  fraction: number; // illuminated part, 0-1
+  radius: number;
+  cx?: number;
+  cy?: number;
+  mirrored?: boolean; // southern hemisphere: lit from the left while waxing
+  litColor?: string;
+  darkColor?: string;
+}
+
+/**
+ * The moon as an SVG group, so it can sit in its own svg or inside another
+ * one (the AnalogClock face). The lit part is a half disc on the sunward
+ * side plus or minus a half ellipse for the terminator, whose width follows
+ * the illuminated fraction.
+ */
+export function MoonDisc({
+  phase,
+  fraction,
+  radius: r,
+  cx = 0,
+  cy = 0,
+  mirrored = false,
+  litColor = "#f4f1e4",
+  darkColor = "#2b2d36",
+}: MoonDiscProps) {
+  const waxing = phase < 0.5;
+  // terminator half-width: r at new / full, 0 at the quarters
+  const rx = Math.abs(1 - 2 * fraction) * r;
+  // in svg coordinates sweep 1 is clockwise: top -> right -> bottom
+  const outerSweep = waxing ? 1 : 0;
+  // crescent: terminator bulges towards the lit side, gibbous: away from it
+  const innerSweep = fraction < 0.5 ? 1 - outerSweep : outerSweep;
+  const lit =
+    `M ${cx} ${cy - r} A ${r} ${r} 0 0 ${outerSweep} ${cx} ${cy + r} ` +
+    `A ${rx.toFixed(3)} ${r} 0 0 ${innerSweep} ${cx} ${cy - r} Z`;
+  return (
+    <g className="ha-moon__disc" transform={mirrored ? `translate(${2 * cx} 0) scale(-1 1)` : undefined}>
+      <circle className="ha-moon__dark" cx={cx} cy={cy} r={r} fill={darkColor} />
+      {fraction > 0.005 && <path className="ha-moon__lit" d={lit} fill={litColor} />}
+    </g>
+  );
+}
+
+/** A MoonDisc for the current moon, refreshed hourly; used as an AnalogClock complication. */
+export function LiveMoonDisc({
+  timeSource = "browser",
+  ...disc
+}: Omit<MoonDiscProps, "phase" | "fraction"> & { timeSource?: TimeSource }) {
+  const { now } = useClock("hour", undefined, timeSource);
+  const { phase, fraction } = moonIllumination(now);
+  return <MoonDisc phase={phase} fraction={fraction} {...disc} />;
+}
@@ -0,0 +1,223 @@
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig } from "@hakit/core";
+import { css } from "@emotion/react";
+import { isSouthern, Hemisphere, MoonDisc } from "./MoonDisc";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { formatClockTime, formatPreset, DatePresetKey, DATE_PRESETS, FormatContext } from "../../format";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import { moonInfo, MOON_PHASE_LABELS } from "../../moon";
+
+interface MoonPhaseProps {
+  display: {
+    showName: boolean;
+    showIllumination: boolean;
+    showAge: boolean;
+    showNextNew: boolean;
+    showNextFull: boolean;
+    hemisphere: Hemisphere;
+  };
+  dates: {
+    preset: DatePresetKey;
+    showTime: boolean;
+    hourFormat: "12" | "24";
+  };
+  appearance: {
+    size: UnitFieldValue;
+    fontSize: UnitFieldValue;
+    color: string;
+    litColor: string;
+    darkColor: string;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+const PRESET_OPTIONS = (Object.keys(DATE_PRESETS) as DatePresetKey[]).map((key) => ({
+  label: `${DATE_PRESETS[key].label} (${DATE_PRESETS[key].description})`,
+  value: key,
+}));
+
+function Render(props: RenderProps<MoonPhaseProps>) {
+  const cfg = useConfig();
+  const locale = getLocale(cfg?.language);
+  const { display, dates } = props;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  // the phase creeps along; once a minute keeps illumination and the next dates exact enough
+  const { now } = useClock("minute", timezone, source);
+  const moon = moonInfo(now);
+  const ctx: FormatContext = { locale, timeZone: timezone };
+  const hour12 = dates.hourFormat === "12";
+  const formatWhen = (date: Date) => {
+    const day = formatPreset(date, ctx, dates.preset);
+    if (!dates.showTime) return day;
+    return `${day} ${formatClockTime(date, ctx, { hour12 })}`;
+  };
+  const percent = new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 0 });
+  const days = new Intl.NumberFormat(locale, { style: "unit", unit: "day", unitDisplay: "long", maximumFractionDigits: 1 });
+  // next new and next full in the order they come
+  const upcoming = [
+    display.showNextNew && { key: "new", label: MOON_PHASE_LABELS.new, date: moon.nextNew },
+    display.showNextFull && { key: "full", label: MOON_PHASE_LABELS.full, date: moon.nextFull },
+  ]
+    .filter((row): row is { key: string; label: string; date: Date } => !!row)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return (
+    <div className="ha-moon__container">
+      <svg className="ha-moon__svg" viewBox="-50 -50 100 100" role="img" aria-label={MOON_PHASE_LABELS[moon.name]}>
+        <MoonDisc
+          phase={moon.phase}
+          fraction={moon.fraction}
+          radius={48}
+          mirrored={isSouthern(display.hemisphere, cfg?.latitude)}
+          litColor="var(--ha-moon-lit)"
+          darkColor="var(--ha-moon-dark)"
+        />
+      </svg>
+      <div className="ha-moon__details">
+        {display.showName && <div className="ha-moon__name">{MOON_PHASE_LABELS[moon.name]}</div>}
+        {(display.showIllumination || display.showAge) && (
+          <div className="ha-moon__meta" suppressHydrationWarning>
+            {display.showIllumination && <span className="ha-moon__illumination">{percent.format(moon.fraction)}</span>}
+            {display.showAge && <span className="ha-moon__age">{days.format(moon.age)}</span>}
+          </div>
+        )}
+        {upcoming.map((row) => (
+          <div key={row.key} className={`ha-moon__next ha-moon__next--${row.key}`} suppressHydrationWarning>
+            <span className="ha-moon__next_label">{row.label}</span> {formatWhen(row.date)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export const config: ComponentConfig<MoonPhaseProps> = {
+  label: "MoonPhase",
+  fields: {
+    display: {
+      type: "object",
+      label: "Display",
+      description: "What to show next to the moon.",
+      section: { expanded: false },
+      objectFields: {
+        showName: { type: "switch", label: "Phase Name", default: true, description: "e.g. Waxing Gibbous." },
+        showIllumination: {
+          type: "switch",
+          label: "Illumination",
+          default: true,
+          description: "Lit part of the disc as a percentage.",
+        },
+        showAge: { type: "switch", label: "Moon Age", default: false, description: "Days since the last new moon." },
+        showNextNew: { type: "switch", label: "Next New Moon", default: true, description: "Date of the next new moon." },
+        showNextFull: { type: "switch", label: "Next Full Moon", default: true, description: "Date of the next full moon." },
+        hemisphere: {
+          type: "select",
+          label: "Hemisphere",
+          default: "auto",
+          options: [
+            { label: "From home location", value: "auto" },
+            { label: "Northern", value: "north" },
+            { label: "Southern", value: "south" },
+          ],
+          description: "The southern hemisphere sees the moon mirrored, lit from the left while waxing.",
+        },
+      },
+    },
+    dates: {
+      type: "object",
+      label: "Dates",
+      description: "How the next new / full moon dates are formatted.",
+      section: { expanded: false },
+      objectFields: {
+        preset: {
+          type: "select",
+          label: "Date Format",
+          default: "weekday_month_day",
+          options: PRESET_OPTIONS,
+          description: "Any of the DateText presets, in the timezone below.",
+        },
+        showTime: { type: "switch", label: "Time", default: false, description: "Add the time of the phase." },
+        hourFormat: {
+          type: "select",
+          label: "Hour Format",
+          default: "24",
+          options: [
+            { label: "24 Hour", value: "24" },
+            { label: "12 Hour", value: "12" },
+          ],
+          visible: (data) => data.dates?.showTime === true,
+          description: "Use 24-hour or 12-hour (AM/PM) mode.",
+        },
+      },
+    },
+    appearance: {
+      type: "object",
+      label: "Appearance",
+      description: "Sizes and colors.",
+      section: { expanded: false },
+      objectFields: {
+        size: { type: "unit", label: "Moon Size", default: "5rem", description: "Width & height of the moon." },
+        fontSize: { type: "unit", label: "Font Size", default: "1rem", description: "Base font size of the details." },
+        color: {
+          type: "color",
+          label: "Text Color",
+          default: "var(--clr-on-surface-a0, currentColor)",
+          description: "Color of the details.",
+        },
+        litColor: { type: "color", label: "Lit Color", default: "#f4f1e4", description: "Color of the sunlit part." },
+        darkColor: { type: "color", label: "Dark Color", default: "#2b2d36", description: "Color of the unlit part." },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone the next phase dates are shown in.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { appearance } = props;
+    return css`
+      &.ha-moon__container {
+        --ha-moon-lit: ${appearance.litColor};
+        --ha-moon-dark: ${appearance.darkColor};
+        font-size: ${appearance.fontSize};
+        color: ${appearance.color};
+        display: flex;
+        align-items: center;
+        gap: 1em;
+      }
+      .ha-moon__svg {
+        width: ${appearance.size};
+        height: ${appearance.size};
+        flex: none;
+      }
+      .ha-moon__name {
+        font-weight: 600;
+      }
+      .ha-moon__meta {
+        display: flex;
+        gap: 0.75em;
+        opacity: 0.8;
+      }
+      .ha-moon__next {
+        font-size: 0.85em;
+      }
+      .ha-moon__next_label {
+        opacity: 0.7;
+      }
+    `;
+  },
+  render: Render,
+};
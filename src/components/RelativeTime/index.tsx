@@ -0,0 +1,251 @@
+import { useEffect, useReducer } from "react";
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig, useStore } from "@hakit/core";
+import { css } from "@emotion/react";
+import { entityTimestampField, EntityTimestampRef } from "../../fields/EntityTimestampPicker";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { clockNow, TimeSource } from "../../clock";
+import { entityTimestamp, TimestampEntity } from "../../entityTime";
+import { formatPreset, DatePresetKey, DATE_PRESETS } from "../../format";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import {
+  formatRelative,
+  relativeValue,
+  watchRelative,
+  RelativeThresholds,
+  DEFAULT_RELATIVE_THRESHOLDS,
+} from "../../relativeTime";
+
+interface RelativeTimeProps {
+  source: {
+    entity: EntityTimestampRef;
+    unavailableText?: string;
+  };
+  format: {
+    numeric: "auto" | "always";
+    style: "long" | "short" | "narrow";
+    uppercase: boolean;
+  };
+  thresholds: RelativeThresholds;
+  fallback: {
+    enabled: boolean;
+    afterDays: number;
+    preset: DatePresetKey;
+  };
+  appearance: {
+    fontSize: UnitFieldValue;
+    color: string;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+const DAY_MS = 86_400_000;
+
+const PRESET_OPTIONS = (Object.keys(DATE_PRESETS) as DatePresetKey[]).map((key) => ({
+  label: `${DATE_PRESETS[key].label} (${DATE_PRESETS[key].description})`,
+  value: key,
+}));
+
+function thresholdField(label: string, unit: string, next: string, value: number) {
+  return {
+    type: "number" as const,
+    label,
+    default: value,
+    min: 0,
+    description: `Show ${unit} below this many, then switch to ${next}. 0 skips ${unit}.`,
+  };
+}
+
+function Render(props: RenderProps<RelativeTimeProps>) {
+  const cfg = useConfig();
+  const locale = getLocale(cfg?.language);
+  const { format, fallback } = props;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  const entityRef = props.source?.entity;
+  const entity = useStore((s) => (entityRef?.entity ? s.entities[entityRef.entity] : undefined)) as
+    | TimestampEntity
+    | undefined;
+  // the shared clock re-renders on resyncs (sleep, clock changes, server offset)
+  // and at midnight for bare times; the label's own changes are timed below
+  const tick = useClock("day", timezone, source);
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const now = clockNow(source);
+  // bare times ("07:30") resolve against today, so take the date from the shared clock
+  const target = entityTimestamp(entity, entityRef?.attribute || "", cfg?.time_zone, now);
+  const thresholds = { ...DEFAULT_RELATIVE_THRESHOLDS, ...props.thresholds };
+  const diff = target ? target.getTime() - now.getTime() : 0;
+  const fallbackMs = fallback.enabled ? Math.max(0, fallback.afterDays) * DAY_MS : Infinity;
+  // re-render whenever the label changes, counted from the target: "in 1 hour"
+  // becomes "in 59 minutes" exactly an hour before it, not on the next full hour
+  const targetMs = target ? target.getTime() : NaN;
+  const thresholdsKey = Object.values(thresholds).join(":");
+  useEffect(() => {
+    if (Number.isNaN(targetMs)) return;
+    return watchRelative(targetMs, () => clockNow(source).getTime(), refresh, { thresholds, limitMs: fallbackMs });
+  }, [targetMs, thresholdsKey, fallbackMs, source, tick]);
+
+  if (!target) {
+    return (
+      <div className="ha-rt__container">
+        <span className="ha-rt__unavailable">{props.source?.unavailableText ?? "Unavailable"}</span>
+      </div>
+    );
+  }
+  const absolute = Math.abs(diff) >= fallbackMs;
+  const text = absolute
+    ? formatPreset(target, { locale, timeZone: timezone }, fallback.preset)
+    : formatRelative(relativeValue(diff, thresholds), locale, format);
+
+  return (
+    <div className="ha-rt__container">
+      <time
+        className={absolute ? "ha-rt__text ha-rt__text--absolute" : "ha-rt__text"}
+        dateTime={target.toISOString()}
+        suppressHydrationWarning
+      >
+        {format.uppercase ? text.toLocaleUpperCase(locale) : text}
+      </time>
+    </div>
+  );
+}
+
+export const config: ComponentConfig<RelativeTimeProps> = {
+  label: "RelativeTime",
+  fields: {
+    source: {
+      type: "object",
+      label: "Source",
+      description: "The entity timestamp to describe relative to now.",
+      section: { expanded: false },
+      objectFields: {
+        entity: entityTimestampField(
+          "When the entity last changed or updated, a timestamp sensor / input_datetime, or a time attribute."
+        ),
+        unavailableText: {
+          type: "text",
+          label: "Unavailable Text",
+          default: "Unavailable",
+          description: "Shown while the entity is unknown, unavailable or missing. Leave empty to show nothing.",
+        },
+      },
+    },
+    format: {
+      type: "object",
+      label: "Format",
+      description: "Wording of the relative time.",
+      section: { expanded: false },
+      objectFields: {
+        numeric: {
+          type: "select",
+          label: "Wording",
+          default: "auto",
+          options: [
+            { label: "Natural (yesterday, now)", value: "auto" },
+            { label: "Always numeric (1 day ago)", value: "always" },
+          ],
+          description: "Natural words where the language has them, or always a number.",
+        },
+        style: {
+          type: "select",
+          label: "Width",
+          default: "long",
+          options: [
+            { label: "Long (5 minutes ago)", value: "long" },
+            { label: "Short (5 min. ago)", value: "short" },
+            { label: "Narrow (5m ago)", value: "narrow" },
+          ],
+          description: "How much the unit names are abbreviated; narrow depends on the language.",
+        },
+        uppercase: { type: "switch", label: "Uppercase", default: false, description: "Show the text in capitals." },
+      },
+    },
+    thresholds: {
+      type: "object",
+      label: "Unit Thresholds",
+      description: "When to move from one unit to the next.",
+      section: { expanded: false },
+      objectFields: {
+        seconds: thresholdField("Seconds", "seconds", "minutes", DEFAULT_RELATIVE_THRESHOLDS.seconds),
+        minutes: thresholdField("Minutes", "minutes", "hours", DEFAULT_RELATIVE_THRESHOLDS.minutes),
+        hours: thresholdField("Hours", "hours", "days", DEFAULT_RELATIVE_THRESHOLDS.hours),
+        days: thresholdField("Days", "days", "weeks", DEFAULT_RELATIVE_THRESHOLDS.days),
+        weeks: thresholdField("Weeks", "weeks", "months", DEFAULT_RELATIVE_THRESHOLDS.weeks),
+        months: thresholdField("Months", "months", "years", DEFAULT_RELATIVE_THRESHOLDS.months),
+      },
+    },
+    fallback: {
+      type: "object",
+      label: "Absolute Fallback",
+      description: "Show the date itself once the time is far enough away.",
+      section: { expanded: false },
+      objectFields: {
+        enabled: {
+          type: "switch",
+          label: "Enabled",
+          default: false,
+          description: "Switch to a formatted date after the number of days below.",
+        },
+        afterDays: {
+          type: "number",
+          label: "After (days)",
+          default: 7,
+          min: 0,
+          visible: (data) => data.fallback?.enabled === true,
+          description: "Times at least this many days away show as a date.",
+        },
+        preset: {
+          type: "select",
+          label: "Date Format",
+          default: "full_long",
+          options: PRESET_OPTIONS,
+          visible: (data) => data.fallback?.enabled === true,
+          description: "Any of the DateText presets, in the timezone below.",
+        },
+      },
+    },
+    appearance: {
+      type: "object",
+      label: "Appearance",
+      description: "Size and color of the text.",
+      section: { expanded: false },
+      objectFields: {
+        fontSize: { type: "unit", label: "Font Size", default: "1rem", description: "Size of the text." },
+        color: {
+          type: "color",
+          label: "Text Color",
+          default: "var(--clr-on-surface-a0, currentColor)",
+          description: "Color of the text.",
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone for bare times and the absolute fallback.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { appearance } = props;
+    return css`
+      &.ha-rt__container {
+        font-size: ${appearance.fontSize};
+        color: ${appearance.color};
+      }
+      .ha-rt__unavailable {
+        opacity: 0.6;
+      }
+    `;
+  },
+  render: Render,
+};
@@ -0,0 +1,373 @@
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig } from "@hakit/core";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { durationUnitLabel, splitDuration } from "../../duration";
+import { formatClockTime, FormatContext } from "../../format";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import { daylightLeft, sunPosition, sunTimes, SUN_ANGLES } from "../../sun";
+import { getZonedParts, zonedTimeToDate } from "../../timezone";
+
+interface SunTimesProps {
+  location: {
+    mode: "home" | "manual";
+    latitude: number;
+    longitude: number;
+  };
+  display: {
+    sunriseSunset: boolean;
+    solarNoon: boolean;
+    civil: boolean;
+    nautical: boolean;
+    astronomical: boolean;
+    dayLength: boolean;
+    remaining: boolean;
+    arc: boolean;
+    hourFormat: "12" | "24";
+  };
+  labels: {
+    sunrise: string;
+    sunset: string;
+    solarNoon: string;
+    civil: string;
+    nautical: string;
+    astronomical: string;
+    dayLength: string;
+    remaining: string;
+    unavailable: string;
+  };
+  appearance: {
+    fontSize: UnitFieldValue;
+    color: string;
+    arcColor: string;
+    horizonColor: string;
+    sunColor: string;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+// arc drawing box; x spans local midnight to midnight
+const ARC_WIDTH = 240;
+const ARC_HEIGHT = 80;
+const ARC_SAMPLES = 96;
+
+function formatTime(date: Date | null, ctx: FormatContext, hour12: boolean): string {
+  if (!date) return "—";
+  return formatClockTime(date, ctx, { hour12 });
+}
+
+// "10 hr 26 min", rounded to the minute
+function formatHoursMinutes(ms: number, locale: string | undefined): string {
+  const { hours, minutes } = splitDuration(Math.round(ms / 60_000) * 60_000, ["hours", "minutes"]);
+  const h = `${hours.toLocaleString(locale)} ${durationUnitLabel(hours, "hours", locale, "short")}`;
+  const m = `${minutes.toLocaleString(locale)} ${durationUnitLabel(minutes, "minutes", locale, "short")}`;
+  return hours === 0 ? m : `${h} ${m}`;
+}
+
+function SunArc({
+  now,
+  dayStart,
+  latitude,
+  longitude,
+}: {
+  now: Date;
+  dayStart: Date;
+  latitude: number;
+  longitude: number;
+}) {
+  // elevation through the day, scaled to the day's highest / lowest point
+  const points = Array.from({ length: ARC_SAMPLES + 1 }, (_, i) => {
+    const t = new Date(dayStart.getTime() + (i / ARC_SAMPLES) * 86_400_000);
+    return { x: (i / ARC_SAMPLES) * ARC_WIDTH, elevation: sunPosition(t, latitude, longitude).elevation };
+  });
+  const extent = Math.max(1, ...points.map((p) => Math.abs(p.elevation)));
+  const y = (elevation: number) => ARC_HEIGHT / 2 - (elevation / extent) * (ARC_HEIGHT / 2 - 6);
+  const path = points.map((p, i) => `${i === 0 ? "M" : "L"}${p.x.toFixed(1)},${y(p.elevation).toFixed(1)}`).join(" ");
+  const current = sunPosition(now, latitude, longitude).elevation;
+  const cx = Math.min(1, Math.max(0, (now.getTime() - dayStart.getTime()) / 86_400_000)) * ARC_WIDTH;
+  return (
+    <svg className="ha-sun__arc" viewBox={`0 0 ${ARC_WIDTH} ${ARC_HEIGHT}`} aria-hidden="true">
+      <line className="ha-sun__horizon" x1={0} x2={ARC_WIDTH} y1={y(0)} y2={y(0)} />
+      <path className="ha-sun__path" d={path} />
+      <circle
+        className={clsx("ha-sun__sun", current < SUN_ANGLES.sunrise && "ha-sun__sun--below")}
+        cx={cx}
+        cy={y(current)}
+        r={5}
+      />
+    </svg>
+  );
+}
+
+function Render(props: RenderProps<SunTimesProps>) {
+  const cfg = useConfig();
+  const locale = getLocale(cfg?.language);
+  const { display, location, labels } = props;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  const { now } = useClock("minute", timezone, source);
+  const latitude = location.mode === "manual" ? Number(location.latitude) : cfg?.latitude;
+  const longitude = location.mode === "manual" ? Number(location.longitude) : cfg?.longitude;
+
+  if (typeof latitude !== "number" || typeof longitude !== "number" || !Number.isFinite(latitude + longitude)) {
+    return (
+      <div className="ha-sun__container">
+        <div className="ha-sun__unavailable">{labels.unavailable}</div>
+      </div>
+    );
+  }
+  const times = sunTimes(now, latitude, longitude, timezone);
+  const ctx: FormatContext = { locale, timeZone: timezone };
+  const hour12 = display.hourFormat === "12";
+  const time = (date: Date | null) => formatTime(date, ctx, hour12);
+  const today = getZonedParts(now, timezone);
+  const dayStart = zonedTimeToDate({ year: today.year, month: today.month, day: today.day }, timezone);
+
+  const rows: { key: string; label: string; value: string }[] = [];
+  if (display.sunriseSunset) {
+    rows.push({ key: "sunrise", label: labels.sunrise, value: time(times.sunrise) });
+    rows.push({ key: "sunset", label: labels.sunset, value: time(times.sunset) });
+  }
+  if (display.solarNoon) rows.push({ key: "noon", label: labels.solarNoon, value: time(times.solarNoon) });
+  if (display.civil) {
+    rows.push({ key: "civil", label: labels.civil, value: `${time(times.civilDawn)} – ${time(times.civilDusk)}` });
+  }
+  if (display.nautical) {
+    rows.push({ key: "nautical", label: labels.nautical, value: `${time(times.nauticalDawn)} – ${time(times.nauticalDusk)}` });
+  }
+  if (display.astronomical) {
+    rows.push({
+      key: "astronomical",
+      label: labels.astronomical,
+      value: `${time(times.astronomicalDawn)} – ${time(times.astronomicalDusk)}`,
+    });
+  }
+  if (display.dayLength) rows.push({ key: "length", label: labels.dayLength, value: formatHoursMinutes(times.dayLength, locale) });
+  if (display.remaining) {
+    const left = daylightLeft(times, now, timezone);
+    rows.push({ key: "remaining", label: labels.remaining, value: formatHoursMinutes(left, locale) });
+  }
+
+  return (
+    <div className="ha-sun__container">
+      {display.arc && <SunArc now={now} dayStart={dayStart} latitude={latitude} longitude={longitude} />}
+      <dl className="ha-sun__rows">
+        {rows.map((row) => (
+          <div key={row.key} className={`ha-sun__row ha-sun__row--${row.key}`}>
+            <dt className="ha-sun__label">{row.label}</dt>
+            <dd className="ha-sun__value" suppressHydrationWarning>
+              {row.value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+export const config: ComponentConfig<SunTimesProps> = {
+  label: "SunTimes",
+  fields: {
+    location: {
+      type: "object",
+      label: "Location",
+      description: "Where to work out the sun times for.",
+      section: { expanded: false },
+      objectFields: {
+        mode: {
+          type: "select",
+          label: "Location",
+          default: "home",
+          options: [
+            { label: "Home Assistant home", value: "home" },
+            { label: "Coordinates", value: "manual" },
+          ],
+          description: "Your Home Assistant home location, or any latitude / longitude.",
+        },
+        latitude: {
+          type: "number",
+          label: "Latitude",
+          default: 51.5,
+          min: -90,
+          max: 90,
+          visible: (data) => data.location?.mode === "manual",
+          description: "Degrees north (negative for south).",
+        },
+        longitude: {
+          type: "number",
+          label: "Longitude",
+          default: -0.12,
+          min: -180,
+          max: 180,
+          visible: (data) => data.location?.mode === "manual",
+          description: "Degrees east (negative for west).",
+        },
+      },
+    },
+    display: {
+      type: "object",
+      label: "Display",
+      description: "Which times to show.",
+      section: { expanded: false },
+      objectFields: {
+        arc: { type: "switch", label: "Sun Arc", default: true, description: "The sun's path across the day with its current position." },
+        sunriseSunset: { type: "switch", label: "Sunrise & Sunset", default: true, description: "Show sunrise and sunset." },
+        solarNoon: { type: "switch", label: "Solar Noon", default: false, description: "When the sun is highest." },
+        civil: { type: "switch", label: "Civil Twilight", default: false, description: "Dawn and dusk with the sun 6° below the horizon." },
+        nautical: { type: "switch", label: "Nautical Twilight", default: false, description: "Dawn and dusk at 12° below the horizon." },
+        astronomical: {
+          type: "switch",
+          label: "Astronomical Twilight",
+          default: false,
+          description: "Dawn and dusk at 18° below the horizon.",
+        },
+        dayLength: { type: "switch", label: "Day Length", default: true, description: "Time between sunrise and sunset." },
+        remaining: {
+          type: "switch",
+          label: "Daylight Left",
+          default: true,
+          description: "Time until sunset (until midnight during polar day), 0 at night.",
+        },
+        hourFormat: {
+          type: "select",
+          label: "Hour Format",
+          default: "24",
+          options: [
+            { label: "24 Hour", value: "24" },
+            { label: "12 Hour", value: "12" },
+          ],
+          description: "Use 24-hour or 12-hour (AM/PM) mode.",
+        },
+      },
+    },
+    labels: {
+      type: "object",
+      label: "Labels",
+      description: "Row labels, in your own language.",
+      section: { expanded: false },
+      objectFields: {
+        sunrise: { type: "text", label: "Sunrise", default: "Sunrise" },
+        sunset: { type: "text", label: "Sunset", default: "Sunset" },
+        solarNoon: { type: "text", label: "Solar Noon", default: "Solar noon" },
+        civil: { type: "text", label: "Civil Twilight", default: "Civil twilight" },
+        nautical: { type: "text", label: "Nautical Twilight", default: "Nautical twilight" },
+        astronomical: { type: "text", label: "Astronomical Twilight", default: "Astronomical twilight" },
+        dayLength: { type: "text", label: "Day Length", default: "Day length" },
+        remaining: { type: "text", label: "Daylight Left", default: "Daylight left" },
+        unavailable: {
+          type: "text",
+          label: "No Location",
+          default: "Location unavailable",
+          description: "Shown when there is no home location or the coordinates are invalid.",
+        },
+      },
+    },
+    appearance: {
+      type: "object",
+      label: "Appearance",
+      description: "Sizes and colors.",
+      section: { expanded: false },
+      objectFields: {
+        fontSize: { type: "unit", label: "Font Size", default: "1rem", description: "Base font size." },
+        color: {
+          type: "color",
+          label: "Text Color",
+          default: "var(--clr-on-surface-a0, currentColor)",
+          description: "Color of the labels and times.",
+        },
+        arcColor: {
+          type: "color",
+          label: "Arc Color",
+          default: "var(--clr-on-surface-a50, currentColor)",
+          visible: (data) => data.display?.arc !== false,
+          description: "Color of the sun's path.",
+        },
+        horizonColor: {
+          type: "color",
+          label: "Horizon Color",
+          default: "var(--clr-surface-a30)",
+          visible: (data) => data.display?.arc !== false,
+          description: "Color of the horizon line.",
+        },
+        sunColor: {
+          type: "color",
+          label: "Sun Color",
+          default: "var(--clr-warning-a0, #f5b400)",
+          visible: (data) => data.display?.arc !== false,
+          description: "Color of the sun marker.",
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone the times are shown in; pick the location's own zone for remote places.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { appearance } = props;
+    return css`
+      &.ha-sun__container {
+        font-size: ${appearance.fontSize};
+        color: ${appearance.color};
+        display: flex;
+        flex-direction: column;
+        gap: 0.5em;
+      }
+      .ha-sun__arc {
+        width: 100%;
+        height: auto;
+        overflow: visible;
+      }
+      .ha-sun__horizon {
+        stroke: ${appearance.horizonColor};
+        stroke-width: 1;
+      }
+      .ha-sun__path {
+        fill: none;
+        stroke: ${appearance.arcColor};
+        stroke-width: 1.5;
+        stroke-dasharray: 4 3;
+      }
+      .ha-sun__sun {
+        fill: ${appearance.sunColor};
+      }
+      .ha-sun__sun--below {
+        opacity: 0.4;
+      }
+      .ha-sun__rows {
+        margin: 0;
+        display: grid;
+        grid-template-columns: auto auto;
+        gap: 0.25em 1em;
+      }
+      .ha-sun__row {
+        display: contents;
+      }
+      .ha-sun__label {
+        opacity: 0.7;
+      }
+      .ha-sun__value {
+        margin: 0;
+        text-align: end;
+        font-variant-numeric: tabular-nums;
+      }
+      .ha-sun__unavailable {
+        opacity: 0.6;
+      }
+    `;
+  },
+  render: Render,
+};
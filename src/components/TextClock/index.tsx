@@ -0,0 +1,166 @@
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig } from "@hakit/core";
+import { css } from "@emotion/react";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import {
+  textTimeLanguageFor,
+  timeInWords,
+  TextTimeLanguage,
+  TextTimeLanguageKey,
+  TextTimeRounding,
+  TEXT_TIME_LANGUAGES,
+} from "../../textTime";
+import { getZonedParts } from "../../timezone";
+
+interface TextClockProps {
+  text: {
+    language: TextTimeLanguageKey | "auto";
+    rounding: TextTimeRounding;
+    sentence: boolean;
+    capitalize: boolean;
+  };
+  appearance: {
+    fontSize: UnitFieldValue;
+    color: string;
+    weight: "regular" | "medium" | "bold";
+    uppercase: boolean;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+const LANGUAGE_OPTIONS = [
+  { label: "Home Assistant language", value: "auto" as const },
+  ...(Object.keys(TEXT_TIME_LANGUAGES) as TextTimeLanguageKey[]).map((key) => ({
+    label: TEXT_TIME_LANGUAGES[key].label,
+    value: key,
+  })),
+];
+
+function Render(props: RenderProps<TextClockProps>) {
+  const cfg = useConfig();
+  const { text } = props;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  const { now } = useClock("minute", timezone, source);
+  const languageKey: TextTimeLanguageKey =
+    text.language === "auto" ? textTimeLanguageFor(getLocale(cfg?.language)) : text.language;
+  const language: TextTimeLanguage = TEXT_TIME_LANGUAGES[languageKey] ?? TEXT_TIME_LANGUAGES.en;
+  const { hour, minute } = getZonedParts(now, timezone);
+  const words = timeInWords(language, hour, minute, { rounding: text.rounding, sentence: text.sentence });
+  const display = text.capitalize ? words.charAt(0).toLocaleUpperCase(languageKey) + words.slice(1) : words;
+
+  return (
+    <div className="ha-tc__container" lang={languageKey} suppressHydrationWarning>
+      {display}
+    </div>
+  );
+}
+
+export const config: ComponentConfig<TextClockProps> = {
+  label: "TextClock",
+  fields: {
+    text: {
+      type: "object",
+      label: "Text",
+      description: "Language and how precisely the time is told.",
+      section: { expanded: false },
+      objectFields: {
+        language: {
+          type: "select",
+          label: "Language",
+          default: "auto",
+          options: LANGUAGE_OPTIONS,
+          description: "Falls back to English for languages without rules yet.",
+        },
+        rounding: {
+          type: "select",
+          label: "Precision",
+          default: "five",
+          options: [
+            { label: "Exact minute", value: "exact" },
+            { label: "Nearest 5 minutes", value: "five" },
+            { label: "Nearest quarter", value: "quarter" },
+            { label: "Fuzzy (late afternoon)", value: "fuzzy" },
+          ],
+          description: "Rounds to the nearest step, so 3:58 reads as four o'clock.",
+        },
+        sentence: {
+          type: "switch",
+          label: "Full Sentence",
+          default: false,
+          description: "\"It's quarter past three\" instead of \"quarter past three\".",
+        },
+        capitalize: {
+          type: "switch",
+          label: "Capitalize",
+          default: true,
+          description: "Start with a capital letter.",
+        },
+      },
+    },
+    appearance: {
+      type: "object",
+      label: "Appearance",
+      description: "Font and color.",
+      section: { expanded: false },
+      objectFields: {
+        fontSize: { type: "unit", label: "Font Size", default: "1.5rem", description: "Size of the text." },
+        color: {
+          type: "color",
+          label: "Color",
+          default: "var(--clr-primary-a90)",
+          description: "Text color.",
+        },
+        weight: {
+          type: "select",
+          label: "Weight",
+          default: "regular",
+          options: [
+            { label: "Regular", value: "regular" },
+            { label: "Medium", value: "medium" },
+            { label: "Bold", value: "bold" },
+          ],
+          description: "Font weight.",
+        },
+        uppercase: {
+          type: "switch",
+          label: "Uppercase",
+          default: false,
+          description: "Transform text to uppercase.",
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone settings for the clock.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { appearance } = props;
+    return css`
+      &.ha-tc__container {
+        font-size: ${appearance.fontSize};
+        color: ${appearance.color};
+        font-weight: ${appearance.weight === "bold" ? 700 : appearance.weight === "medium" ? 500 : 400};
+        text-transform: ${appearance.uppercase ? "uppercase" : "none"};
+        line-height: 1.2;
+        user-select: none;
+        cursor: default;
+      }
+    `;
+  },
+  render: Render,
+};
@@ -0,0 +1,339 @@
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig } from "@hakit/core";
+import { css } from "@emotion/react";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { formatPattern, FormatContext } from "../../format";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import { localeFirstDay, Weekday } from "../../monthGrid";
+import { periodProgress, weekThursday, ProgressPeriod } from "../../progress";
+
+interface TimeProgressProps {
+  period: {
+    type: ProgressPeriod;
+    workStart: string;
+    workEnd: string;
+    firstDay: "locale" | "1" | "2" | "3" | "4" | "5" | "6" | "7";
+  };
+  display: {
+    style: "bar" | "ring" | "percent";
+    showLabel: boolean;
+    labelPattern: string;
+    showPercent: boolean;
+    decimals: number;
+  };
+  appearance: {
+    size: UnitFieldValue;
+    thickness: number;
+    fontSize: UnitFieldValue;
+    color: string;
+    fillColor: string;
+    trackColor: string;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+const WEEKDAY_LABELS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// DateText patterns used when the label pattern is left empty
+const DEFAULT_LABELS: Record<ProgressPeriod, string> = {
+  day: "dddd",
+  workday: "[Work day]",
+  week: "[Week] W",
+  month: "MMMM",
+  year: "YYYY",
+};
+
+function Render(props: RenderProps<TimeProgressProps>) {
+  const cfg = useConfig();
+  const locale = getLocale(cfg?.language);
+  const { period, display } = props;
+  const type: ProgressPeriod = period.type;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  const { now } = useClock("minute", timezone, source);
+  const firstDay = period.firstDay === "locale" ? localeFirstDay(locale) : (Number(period.firstDay) as Weekday);
+  const { fraction } = periodProgress(now, type, {
+    timeZone: timezone,
+    firstDay,
+    workStart: period.workStart,
+    workEnd: period.workEnd,
+  });
+  const ctx: FormatContext = { locale, timeZone: timezone };
+  const decimals = Math.min(2, Math.max(0, Number(display.decimals) || 0));
+  const percent = new Intl.NumberFormat(locale, {
+    style: "percent",
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(fraction);
+  // the default week number follows the bar's first day: read it on the week's Thursday
+  const labelDate =
+    type === "week" && !display.labelPattern ? weekThursday(now, { timeZone: timezone, firstDay }) : now;
+  const label = display.showLabel ? formatPattern(labelDate, ctx, display.labelPattern || DEFAULT_LABELS[type]) : "";
+  // "Week 42 — 63%"; the percent style shows the number large on its own
+  const caption = [label, display.showPercent && display.style !== "percent" ? percent : ""].filter(Boolean).join(" — ");
+
+  return (
+    <div
+      className={`ha-tp__container ha-tp__style_${display.style}`}
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(fraction * 100)}
+      aria-label={label || undefined}
+    >
+      {display.style === "bar" && (
+        <div className="ha-tp__track">
+          <div className="ha-tp__fill" style={{ width: `${fraction * 100}%` }} />
+        </div>
+      )}
+      {display.style === "ring" && (
+        <svg className="ha-tp__ring" viewBox="0 0 100 100" aria-hidden="true">
+          <circle className="ha-tp__ring_track" cx={50} cy={50} r={50 - props.appearance.thickness / 2} />
+          <circle
+            className="ha-tp__ring_fill"
+            cx={50}
+            cy={50}
+            r={50 - props.appearance.thickness / 2}
+            pathLength={100}
+            strokeDasharray={`${fraction * 100} 100`}
+            transform="rotate(-90 50 50)"
+          />
+          {display.showPercent && (
+            <text className="ha-tp__ring_text" x={50} y={50} suppressHydrationWarning>
+              {percent}
+            </text>
+          )}
+        </svg>
+      )}
+      {display.style === "percent" && (
+        <div className="ha-tp__percent" suppressHydrationWarning>
+          {percent}
+        </div>
+      )}
+      {caption && display.style !== "ring" && (
+        <div className="ha-tp__label" suppressHydrationWarning>
+          {caption}
+        </div>
+      )}
+      {display.style === "ring" && label && (
+        <div className="ha-tp__label" suppressHydrationWarning>
+          {label}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const config: ComponentConfig<TimeProgressProps> = {
+  label: "TimeProgress",
+  fields: {
+    period: {
+      type: "object",
+      label: "Period",
+      description: "What to measure the progress of.",
+      section: { expanded: false },
+      objectFields: {
+        type: {
+          type: "select",
+          label: "Period",
+          default: "day",
+          options: [
+            { label: "Day", value: "day" },
+            { label: "Work day", value: "workday" },
+            { label: "Week", value: "week" },
+            { label: "Month", value: "month" },
+            { label: "Year", value: "year" },
+          ],
+          description: "Boundaries are midnights in the timezone below, so 23 and 25 hour DST days work out.",
+        },
+        workStart: {
+          type: "text",
+          label: "Work Start",
+          default: "09:00",
+          visible: (data) => data.period?.type === "workday",
+          description: "Start of the work day (HH:MM).",
+        },
+        workEnd: {
+          type: "text",
+          label: "Work End",
+          default: "17:00",
+          visible: (data) => data.period?.type === "workday",
+          description: "End of the work day (HH:MM); earlier than the start for a night shift.",
+        },
+        firstDay: {
+          type: "select",
+          label: "First Day of Week",
+          default: "locale",
+          options: [
+            { label: "From language", value: "locale" },
+            ...WEEKDAY_LABELS.map((label, idx) => ({ label, value: String(idx + 1) as TimeProgressProps["period"]["firstDay"] })),
+          ],
+          visible: (data) => data.period?.type === "week",
+          description: "Follows your Home Assistant language (Sunday for en-US, Monday for en-GB) unless set here.",
+        },
+      },
+    },
+    display: {
+      type: "object",
+      label: "Display",
+      description: "Bar, ring or percentage, and the label.",
+      section: { expanded: false },
+      objectFields: {
+        style: {
+          type: "select",
+          label: "Style",
+          default: "bar",
+          options: [
+            { label: "Bar", value: "bar" },
+            { label: "Ring", value: "ring" },
+            { label: "Percentage", value: "percent" },
+          ],
+          description: "How to show the progress.",
+        },
+        showLabel: { type: "switch", label: "Label", default: true, description: "Name the period, e.g. Week 42." },
+        labelPattern: {
+          type: "text",
+          label: "Label Pattern",
+          default: "",
+          visible: (data) => data.display?.showLabel !== false,
+          description:
+            "A DateText pattern such as [Week] W or MMMM YYYY. Empty uses the period's default (dddd, [Week] W, MMMM, YYYY).",
+        },
+        showPercent: { type: "switch", label: "Percentage", default: true, description: "Show the percentage passed." },
+        decimals: {
+          type: "number",
+          label: "Decimals",
+          default: 0,
+          min: 0,
+          max: 2,
+          description: "Decimal places of the percentage.",
+        },
+      },
+    },
+    appearance: {
+      type: "object",
+      label: "Appearance",
+      description: "Sizes and colors.",
+      section: { expanded: false },
+      objectFields: {
+        size: {
+          type: "unit",
+          label: "Size",
+          default: "6rem",
+          visible: (data) => data.display?.style === "ring",
+          description: "Width & height of the ring.",
+        },
+        thickness: {
+          type: "number",
+          label: "Thickness",
+          default: 10,
+          min: 2,
+          max: 30,
+          visible: (data) => data.display?.style !== "percent",
+          description: "Ring stroke (SVG units of 100) or bar height in pixels.",
+        },
+        fontSize: { type: "unit", label: "Font Size", default: "1rem", description: "Base font size." },
+        color: {
+          type: "color",
+          label: "Text Color",
+          default: "var(--clr-on-surface-a0, currentColor)",
+          description: "Color of the label and percentage.",
+        },
+        fillColor: {
+          type: "color",
+          label: "Fill Color",
+          default: "var(--clr-primary-a90)",
+          description: "Color of the passed part.",
+        },
+        trackColor: {
+          type: "color",
+          label: "Track Color",
+          default: "var(--clr-surface-a30)",
+          visible: (data) => data.display?.style !== "percent",
+          description: "Color of the part still to come.",
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone the period boundaries are worked out in.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { appearance } = props;
+    return css`
+      &.ha-tp__container {
+        font-size: ${appearance.fontSize};
+        color: ${appearance.color};
+        display: flex;
+        flex-direction: column;
+        gap: 0.375em;
+        user-select: none;
+        cursor: default;
+      }
+      &.ha-tp__style_ring {
+        align-items: center;
+      }
+      .ha-tp__track {
+        width: 100%;
+        height: ${appearance.thickness}px;
+        border-radius: ${appearance.thickness / 2}px;
+        background-color: ${appearance.trackColor};
+        overflow: hidden;
+      }
+      .ha-tp__fill {
+        height: 100%;
+        border-radius: inherit;
+        background-color: ${appearance.fillColor};
+        transition: width 0.6s ease;
+      }
+      .ha-tp__ring {
+        width: ${appearance.size};
+        height: ${appearance.size};
+      }
+      .ha-tp__ring_track,
+      .ha-tp__ring_fill {
+        fill: none;
+        stroke-width: ${appearance.thickness};
+      }
+      .ha-tp__ring_track {
+        stroke: ${appearance.trackColor};
+      }
+      .ha-tp__ring_fill {
+        stroke: ${appearance.fillColor};
+        stroke-linecap: round;
+        transition: stroke-dasharray 0.6s ease;
+      }
+      .ha-tp__ring_text {
+        fill: currentColor;
+        font-size: 20px;
+        text-anchor: middle;
+        dominant-baseline: central;
+        font-variant-numeric: tabular-nums;
+      }
+      .ha-tp__percent {
+        font-size: 2.5em;
+        font-weight: 500;
+        line-height: 1;
+        color: ${appearance.fillColor};
+        font-variant-numeric: tabular-nums;
+      }
+      .ha-tp__label {
+        font-variant-numeric: tabular-nums;
+      }
+    `;
+  },
+  render: Render,
+};
@@ -0,0 +1,462 @@
+import { useEffect, useReducer, useRef } from "react";
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useLocales, useService, useStore } from "@hakit/core";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+import { FlipDigit, flipDigitStyles, DigitUpdater } from "../DigitalClock/FlipDigit";
+import { entityField } from "../../fields/EntityPicker";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { clockNow, subscribeClock, ClockTick, TimeSource } from "../../clock";
+import { parseDuration, splitDuration, DurationUnit } from "../../duration";
+import { useTimeSource } from "../../hooks";
+
+type TimerState = "idle" | "active" | "paused";
+
+interface TimerEntity {
+  entity_id: string;
+  state: string;
+  last_changed: string;
+  attributes: {
+    friendly_name?: string;
+    duration?: string;
+    remaining?: string;
+    finishes_at?: string; // only while active
+  };
+}
+
+interface TimerProps {
+  entity: string;
+  display: {
+    styleMode: "flip" | "digital";
+    hours: "auto" | "always";
+    showName: boolean;
+    showControls: boolean;
+    timeSource?: TimeSource;
+  };
+  controls: {
+    start: boolean;
+    pause: boolean;
+    cancel: boolean;
+    finish: boolean;
+  };
+  clock: {
+    spacing: UnitFieldValue;
+    digitWidth: UnitFieldValue;
+    digitHeight: UnitFieldValue;
+    digitRadius: UnitFieldValue;
+    digitFontSize: UnitFieldValue;
+    backgroundColor: string;
+    dividerColor: string;
+    idleColor: string;
+    activeColor: string;
+    pausedColor: string;
+  };
+}
+
+const HOUR_MS = 3_600_000;
+
+/**
+ * Milliseconds left on `entity` at `now`. Active timers count down to
+ * `finishes_at`; without it (older HA) from `remaining` at the moment the
+ * timer last changed state. Paused timers hold `remaining`, idle ones show the
+ * full `duration`. Null when the entity isn't a timer or has no usable value.
+ */
+function timerRemaining(entity: TimerEntity | undefined, now: Date): number | null {
+  if (!entity) return null;
+  const { attributes } = entity;
+  let ms: number | null = null;
+  if (entity.state === "active") {
+    const finishesAt = attributes.finishes_at ? Date.parse(attributes.finishes_at) : NaN;
+    if (!Number.isNaN(finishesAt)) {
+      ms = finishesAt - now.getTime();
+    } else {
+      const remaining = parseDuration(attributes.remaining);
+      const since = Date.parse(entity.last_changed);
+      if (remaining !== null && !Number.isNaN(since)) ms = remaining - (now.getTime() - since);
+    }
+  } else if (entity.state === "paused") {
+    ms = parseDuration(attributes.remaining);
+  } else if (entity.state === "idle") {
+    ms = parseDuration(attributes.duration);
+  }
+  return ms === null ? null : Math.max(0, ms);
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// decide on the hours group from the configured duration, so it doesn't vanish mid-countdown
+function timerUnits(entity: TimerEntity | undefined, remaining: number, hours: TimerProps["display"]["hours"]): DurationUnit[] {
+  const full = parseDuration(entity?.attributes.duration) ?? remaining;
+  return hours === "always" || Math.max(full, remaining) >= HOUR_MS
+    ? ["hours", "minutes", "seconds"]
+    : ["minutes", "seconds"];
+}
+
+// text per group; hours aren't padded, "1:05:00" rather than "01:05:00"
+function groupTexts(ms: number, units: DurationUnit[]): string[] {
+  const parts = splitDuration(ms, units);
+  return units.map((unit) => (unit === "hours" ? String(parts[unit]) : pad2(parts[unit])));
+}
+
+function Render(props: RenderProps<TimerProps>) {
+  const { display, controls } = props;
+  const source = display.timeSource || "browser";
+  useTimeSource(source);
+  const entity = useStore((s) => (props.entity ? s.entities[props.entity] : undefined)) as TimerEntity | undefined;
+  const timer = useService("timer");
+  const locales = useLocales();
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+  const timeRef = useRef<HTMLDivElement>(null);
+  const digitUpdatersRef = useRef<Partial<Record<DurationUnit, DigitUpdater[]>>>({});
+  // the text each group's digits mounted with; later changes go through the updaters
+  const mountedRef = useRef<Partial<Record<DurationUnit, string>>>({});
+  const remaining = timerRemaining(entity, clockNow(source));
+  const state: TimerState =
+    entity?.state === "active" || entity?.state === "paused" ? entity.state : "idle";
+  const units = timerUnits(entity, remaining ?? 0, display.hours);
+  const texts = remaining === null ? [] : groupTexts(remaining, units);
+  // a group that gained or lost a digit (10 -> 9 hours) mounts new digits
+  units.forEach((unit, idx) => {
+    if (texts[idx] !== undefined && mountedRef.current[unit]?.length !== texts[idx].length) {
+      mountedRef.current[unit] = texts[idx];
+    }
+  });
+  // every digit registers again on commit
+  digitUpdatersRef.current = {};
+  useEffect(() => {
+    if (!entity) return;
+    const apply = ({ now, resync }: ClockTick) => {
+      const ms = timerRemaining(entity, now);
+      if (ms === null) return;
+      const next = groupTexts(ms, units);
+      if (units.some((unit, idx) => mountedRef.current[unit]?.length !== next[idx].length)) {
+        rerender();
+        return;
+      }
+      units.forEach((unit, idx) =>
+        Array.from(next[idx]).forEach((c, i) =>
+          digitUpdatersRef.current[unit]?.[i]?.(c, resync ? { immediate: true } : undefined)
+        )
+      );
+      timeRef.current?.setAttribute("aria-label", next.join(":"));
+    };
+    // digits keep their mount text, bring them to this state's value straight away
+    apply({ now: clockNow(source), resync: false });
+    // only a running timer changes by itself
+    if (state !== "active") return;
+    return subscribeClock("second", apply, undefined, source);
+  }, [entity, state, source, units.join(":")]);
+
+  if (!entity || remaining === null) {
+    return (
+      <div className="ha-tm__container ha-tm__container--empty">
+        <div className="ha-tm__name">
+          {props.entity ? locales.entity_not_available_entity.replace("{entity}", props.entity) : locales.choose_entity}
+        </div>
+      </div>
+    );
+  }
+  const target = entity.entity_id;
+  const canRun = state !== "idle";
+
+  return (
+    <div
+      className={clsx(
+        "ha-tm__container",
+        `ha-tm__state--${state}`,
+        display.styleMode === "flip" ? "ha-tm__mode_flip" : "ha-tm__mode_digital"
+      )}
+    >
+      {display.showName && <div className="ha-tm__name">{entity.attributes.friendly_name || entity.entity_id}</div>}
+      <div ref={timeRef} className="ha-tm__time" role="timer" aria-label={texts.join(":")}>
+        {units.map((unit, idx) => {
+          const chars = Array.from(mountedRef.current[unit] ?? "");
+          const register = (i: number) => (fn: DigitUpdater) => {
+            (digitUpdatersRef.current[unit] ||= [])[i] = fn;
+          };
+          return (
+            <div key={unit} className="ha-tm__group" aria-hidden="true">
+              {idx > 0 && <div className="ha-tm__colon" />}
+              {display.styleMode === "flip" ? (
+                chars.map((c, i) => (
+                  // keyed by length too, so a changed digit count remounts
+                  <FlipDigit
+                    key={`${chars.length}-${i}`}
+                    initial={c}
+                    className={`ha-dc__digit_block--${unit}`}
+                    onRegister={register(i)}
+                  />
+                ))
+              ) : (
+                <span className="ha-tm__digits">
+                  {chars.map((c, i) => (
+                    <span
+                      key={`${chars.length}-${i}`}
+                      ref={(el) => {
+                        if (!el) return;
+                        register(i)((next) => {
+                          if (el.textContent !== String(next)) el.textContent = String(next);
+                        });
+                      }}
+                    >
+                      {c}
+                    </span>
+                  ))}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {display.showControls && (
+        <div className="ha-tm__controls">
+          {controls.start && state !== "active" && (
+            <button type="button" className="ha-tm__button ha-tm__button--start" onClick={() => timer.start({ target })}>
+              {/* timer.start resumes a paused timer too, Home Assistant names it Start either way */}
+              {locales.start}
+            </button>
+          )}
+          {controls.pause && state === "active" && (
+            <button type="button" className="ha-tm__button ha-tm__button--pause" onClick={() => timer.pause({ target })}>
+              {locales.pause}
+            </button>
+          )}
+          {controls.cancel && canRun && (
+            <button type="button" className="ha-tm__button ha-tm__button--cancel" onClick={() => timer.cancel({ target })}>
+              {locales.cancel}
+            </button>
+          )}
+          {controls.finish && canRun && (
+            <button type="button" className="ha-tm__button ha-tm__button--finish" onClick={() => timer.finish({ target })}>
+              {locales.finish}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const config: ComponentConfig<TimerProps> = {
+  label: "Timer",
+  internalFields: {
+    omit: {
+      $appearance: {
+        sizeAndSpacing: {
+          width: true,
+          height: true,
+        },
+      },
+    },
+  },
+  fields: {
+    entity: entityField("timer", "The timer.* entity to show and control."),
+    display: {
+      type: "object",
+      label: "Display",
+      description: "What the timer shows.",
+      section: { expanded: false },
+      objectFields: {
+        styleMode: {
+          type: "select",
+          label: "Style",
+          default: "flip",
+          options: [
+            { label: "Flip", value: "flip" },
+            { label: "Digital", value: "digital" },
+          ],
+          description: "Flip cards like DigitalClock, or plain digits.",
+        },
+        hours: {
+          type: "select",
+          label: "Hours",
+          default: "auto",
+          options: [
+            { label: "When needed", value: "auto" },
+            { label: "Always", value: "always" },
+          ],
+          description: "Show the hours group only for timers of an hour or more, or always.",
+        },
+        showName: { type: "switch", label: "Name", default: true, description: "Show the timer's name above the time." },
+        showControls: {
+          type: "switch",
+          label: "Controls",
+          default: true,
+          description: "Buttons calling the timer services.",
+        },
+        timeSource: timeSourceField(),
+      },
+    },
+    controls: {
+      type: "object",
+      label: "Controls",
+      description: "Which buttons to offer; each only shows in the states it applies to.",
+      section: { expanded: false },
+      visible: (data) => data.display?.showControls !== false,
+      objectFields: {
+        start: { type: "switch", label: "Start / Resume", default: true, description: "Start an idle timer or resume a paused one." },
+        pause: { type: "switch", label: "Pause", default: true, description: "Pause a running timer." },
+        cancel: { type: "switch", label: "Cancel", default: true, description: "Stop the timer and reset it." },
+        finish: { type: "switch", label: "Finish", default: false, description: "End the timer now, firing timer.finished." },
+      },
+    },
+    clock: {
+      type: "object",
+      label: "Appearance",
+      description: "Sizes and colors, with an accent color per timer state.",
+      section: { expanded: false },
+      objectFields: {
+        spacing: { type: "unit", label: "Spacing", default: "0.5rem", description: "Gap between the time groups." },
+        digitWidth: {
+          type: "unit",
+          label: "Digit Width",
+          default: "3rem",
+          visible: (data) => data.display?.styleMode === "flip",
+          description: "Width of each flip card.",
+        },
+        digitHeight: {
+          type: "unit",
+          label: "Digit Height",
+          default: "4.5rem",
+          visible: (data) => data.display?.styleMode === "flip",
+          description: "Height of each flip card.",
+        },
+        digitRadius: {
+          type: "unit",
+          label: "Digit Radius",
+          default: "0.5rem",
+          visible: (data) => data.display?.styleMode === "flip",
+          description: "Corner radius of each flip card.",
+        },
+        digitFontSize: { type: "unit", label: "Digit Font Size", default: "3rem", description: "Size of the digits." },
+        backgroundColor: {
+          type: "color",
+          label: "Card Color",
+          default: "var(--clr-surface-a10)",
+          visible: (data) => data.display?.styleMode === "flip",
+          description: "Background of the flip cards.",
+        },
+        dividerColor: {
+          type: "color",
+          label: "Divider Color",
+          default: "var(--clr-surface-a30)",
+          visible: (data) => data.display?.styleMode === "flip",
+          description: "Line across the middle of each card.",
+        },
+        idleColor: {
+          type: "color",
+          label: "Idle Color",
+          default: "var(--clr-on-surface-a50, currentColor)",
+          description: "Digits and buttons while the timer is idle.",
+        },
+        activeColor: {
+          type: "color",
+          label: "Active Color",
+          default: "var(--clr-primary-a0, currentColor)",
+          description: "Digits and buttons while the timer runs.",
+        },
+        pausedColor: {
+          type: "color",
+          label: "Paused Color",
+          default: "var(--clr-warning-a0, #f5b400)",
+          description: "Digits and buttons while the timer is paused.",
+        },
+      },
+    },
+  },
+  styles(props) {
+    const { clock } = props;
+    return css`
+      &.ha-tm__container {
+        --ha-tm-accent: ${clock.idleColor};
+        --ha-dc-flip-duration: 0.7s;
+        --ha-dc-digit-block-width: ${clock.digitWidth};
+        --ha-dc-digit-block-height: ${clock.digitHeight};
+        --ha-dc-digit-block-radius: ${clock.digitRadius};
+        --ha-dc-digit-font-size: ${clock.digitFontSize};
+        --ha-dc-background: ${clock.backgroundColor};
+        --ha-dc-digit-color: var(--ha-tm-accent);
+        --ha-dc-divider-color: ${clock.dividerColor};
+        --ha-dc-divider-height: 1px;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 0.5rem;
+        user-select: none;
+      }
+      &.ha-tm__state--active {
+        --ha-tm-accent: ${clock.activeColor};
+      }
+      &.ha-tm__state--paused {
+        --ha-tm-accent: ${clock.pausedColor};
+      }
+      &.ha-tm__state--paused .ha-tm__time {
+        animation: ha-tm-blink 1s steps(1) infinite;
+      }
+      @keyframes ha-tm-blink {
+        50% {
+          opacity: 0.4;
+        }
+      }
+      .ha-tm__name {
+        font-weight: 500;
+        opacity: 0.8;
+      }
+      .ha-tm__time,
+      .ha-tm__group {
+        display: flex;
+        gap: ${clock.spacing};
+      }
+      .ha-tm__group {
+        gap: 4px;
+      }
+      .ha-tm__digits {
+        font-size: ${clock.digitFontSize};
+        color: var(--ha-tm-accent);
+        font-weight: 500;
+        line-height: 1;
+        font-variant-numeric: tabular-nums;
+      }
+      .ha-tm__colon {
+        display: flex;
+        flex-direction: column;
+        justify-content: center;
+        gap: 5px;
+        height: var(--ha-dc-digit-block-height);
+      }
+      &.ha-tm__mode_digital .ha-tm__colon {
+        height: ${clock.digitFontSize};
+      }
+      .ha-tm__colon::before,
+      .ha-tm__colon::after {
+        content: "";
+        width: 5px;
+        height: 5px;
+        border-radius: 50%;
+        background-color: var(--ha-tm-accent);
+      }
+      .ha-tm__controls {
+        display: flex;
+        flex-wrap: wrap;
+        justify-content: center;
+        gap: 0.5rem;
+      }
+      .ha-tm__button {
+        font: inherit;
+        padding: 0.35em 0.9em;
+        border-radius: 999px;
+        border: 1px solid var(--ha-tm-accent);
+        background: transparent;
+        color: var(--ha-tm-accent);
+        cursor: pointer;
+      }
+      .ha-tm__button:hover {
+        background: color-mix(in srgb, var(--ha-tm-accent) 15%, transparent);
+      }
+      ${flipDigitStyles}
+    `;
+  },
+  render: Render,
+};
@@ -0,0 +1,207 @@
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig } from "@hakit/core";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import { getZonedParts } from "../../timezone";
+import {
+  wordClockCells,
+  wordClockLanguageFor,
+  WordClockLanguage,
+  WordClockLanguageKey,
+  WORD_CLOCK_LANGUAGES,
+} from "../../wordClock";
+
+interface WordClockProps {
+  clock: {
+    language: WordClockLanguageKey | "auto";
+    fontSize: UnitFieldValue;
+    spacing: UnitFieldValue;
+    litColor: string;
+    unlitColor: string;
+    dots: boolean;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+const LANGUAGE_OPTIONS = [
+  { label: "Home Assistant language", value: "auto" as const },
+  ...(Object.keys(WORD_CLOCK_LANGUAGES) as WordClockLanguageKey[]).map((key) => ({
+    label: WORD_CLOCK_LANGUAGES[key].label,
+    value: key,
+  })),
+];
+
+// corner dots light clockwise from the top left, one per minute past the five
+const DOT_CORNERS = ["top_left", "top_right", "bottom_right", "bottom_left"] as const;
+
+function Render(props: RenderProps<WordClockProps>) {
+  const cfg = useConfig();
+  const { clock } = props;
+  const timezone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  const { now } = useClock("minute", timezone, source);
+  const languageKey: WordClockLanguageKey =
+    clock.language === "auto" ? wordClockLanguageFor(getLocale(cfg?.language)) : clock.language;
+  const language: WordClockLanguage = WORD_CLOCK_LANGUAGES[languageKey] ?? WORD_CLOCK_LANGUAGES.en;
+  const { hour, minute } = getZonedParts(now, timezone);
+  const { lit, dots } = wordClockCells(language, hour, minute);
+  // screen readers get the lit words rather than 110 letters
+  const spoken = language.rows
+    .map((row, r) => Array.from(row, (letter, c) => (lit[r][c] ? letter : " ")).join(""))
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return (
+    <div className="ha-wc__container" role="img" aria-label={spoken} lang={languageKey}>
+      <div className="ha-wc__grid" aria-hidden="true">
+        {language.rows.map((row, r) =>
+          Array.from(row, (letter, c) => (
+            <span key={`${r}-${c}`} className={clsx("ha-wc__cell", lit[r][c] && "ha-wc__cell--lit")}>
+              {letter}
+            </span>
+          ))
+        )}
+      </div>
+      {clock.dots &&
+        DOT_CORNERS.map((corner, i) => (
+          <span
+            key={corner}
+            className={clsx("ha-wc__dot", `ha-wc__dot--${corner}`, i < dots && "ha-wc__dot--lit")}
+            aria-hidden="true"
+          />
+        ))}
+    </div>
+  );
+}
+
+export const config: ComponentConfig<WordClockProps> = {
+  label: "WordClock",
+  fields: {
+    clock: {
+      type: "object",
+      label: "Clock",
+      description: "Clock appearance configuration",
+      section: { expanded: false },
+      objectFields: {
+        language: {
+          type: "select",
+          label: "Language",
+          description: "Letter grid to spell the time in. Falls back to English for other languages.",
+          default: "auto",
+          options: LANGUAGE_OPTIONS,
+        },
+        fontSize: {
+          type: "unit",
+          label: "Font Size",
+          description: "Size of the letters.",
+          default: "1.5rem",
+        },
+        spacing: {
+          type: "unit",
+          label: "Spacing",
+          description: "Gap between letters.",
+          default: "0.5rem",
+          step: 0.1,
+        },
+        litColor: {
+          type: "color",
+          label: "Lit Color",
+          description: "Color of the words that spell the time.",
+          default: "var(--clr-primary-a90)",
+        },
+        unlitColor: {
+          type: "color",
+          label: "Unlit Color",
+          description: "Color of the remaining letters.",
+          default: "var(--clr-surface-a30)",
+        },
+        dots: {
+          type: "switch",
+          label: "Minute Dots",
+          description: "Corner dots for the minutes between the five-minute steps.",
+          default: true,
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Timezone settings for the clock.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Select a specific timezone or use your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { clock } = props;
+    return css`
+      &.ha-wc__container {
+        --ha-wc-font-size: ${clock.fontSize};
+        --ha-wc-spacing: ${clock.spacing};
+        --ha-wc-lit-color: ${clock.litColor};
+        --ha-wc-unlit-color: ${clock.unlitColor};
+        --ha-wc-dot-size: calc(var(--ha-wc-font-size) * 0.25);
+        position: relative;
+        display: inline-block;
+        padding: ${clock.dots ? "calc(var(--ha-wc-dot-size) * 3)" : "0"};
+        user-select: none;
+        cursor: default;
+      }
+      .ha-wc__grid {
+        display: grid;
+        grid-template-columns: repeat(11, 1fr);
+        gap: var(--ha-wc-spacing);
+        font-size: var(--ha-wc-font-size);
+        font-weight: 500;
+        line-height: 1;
+        text-align: center;
+      }
+      .ha-wc__cell {
+        color: var(--ha-wc-unlit-color);
+        transition: color 0.4s ease;
+      }
+      .ha-wc__cell--lit {
+        color: var(--ha-wc-lit-color);
+      }
+      .ha-wc__dot {
+        position: absolute;
+        width: var(--ha-wc-dot-size);
+        height: var(--ha-wc-dot-size);
+        border-radius: 50%;
+        background-color: var(--ha-wc-unlit-color);
+        transition: background-color 0.4s ease;
+      }
+      .ha-wc__dot--lit {
+        background-color: var(--ha-wc-lit-color);
+      }
+      .ha-wc__dot--top_left {
+        top: var(--ha-wc-dot-size);
+        left: var(--ha-wc-dot-size);
+      }
+      .ha-wc__dot--top_right {
+        top: var(--ha-wc-dot-size);
+        right: var(--ha-wc-dot-size);
+      }
+      .ha-wc__dot--bottom_right {
+        bottom: var(--ha-wc-dot-size);
+        right: var(--ha-wc-dot-size);
+      }
+      .ha-wc__dot--bottom_left {
+        bottom: var(--ha-wc-dot-size);
+        left: var(--ha-wc-dot-size);
+      }
+    `;
+  },
+  render: Render,
+};
@@ -0,0 +1,370 @@
+import { ComponentConfig, RenderProps, UnitFieldValue } from "@hakit/addon";
+import { useConfig } from "@hakit/core";
+import { css } from "@emotion/react";
+import clsx from "clsx";
+import { AnalogClockPrivate, analogHandAnimations } from "../AnalogClock/AnalogClock";
+import { timeSourceField } from "../../fields/TimeSourceField";
+import { timezoneOverrideField } from "../../fields/TimezonePicker";
+import { TimeSource } from "../../clock";
+import { getLocale, resolveTimezone } from "../../helpers";
+import { useClock, useTimeSource } from "../../hooks";
+import { formatClockTime } from "../../format";
+import { formatGmtOffset, getTimezoneOffset, getZonedParts, timezoneCity } from "../../timezone";
+
+interface WorldClockZone {
+  label: string; // empty -> city from the timezone id
+  timezone: string;
+}
+
+interface WorldClockProps {
+  zones: WorldClockZone[];
+  layout: {
+    mode: "list" | "grid";
+    columnWidth: UnitFieldValue; // grid only, minimum width of a cell
+    gap: UnitFieldValue;
+  };
+  display: {
+    style: "digital" | "analog";
+    hourFormat: "12" | "24";
+    showSeconds: boolean;
+    showDayOffset: boolean;
+    showUtcOffset: boolean;
+    showDayNight: boolean;
+    fontSize: UnitFieldValue;
+    analogSize: UnitFieldValue;
+    color: string;
+    faceColor: string;
+  };
+  timezone: { override: string; timeSource?: TimeSource };
+}
+
+// rough daylight window; the zones aren't tied to a location, so no real sunrise / sunset.
+// The field description says so.
+const DAY_START_HOUR = 6;
+const DAY_END_HOUR = 18;
+
+const relativeDayFormatters = new Map<string, Intl.RelativeTimeFormat>();
+
+// "tomorrow", "yesterday", "in 2 days" relative to the home zone's date
+function dayOffsetLabel(days: number, locale: string | undefined): string {
+  const key = locale || "";
+  let fmt = relativeDayFormatters.get(key);
+  if (!fmt) {
+    fmt = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+    relativeDayFormatters.set(key, fmt);
+  }
+  return fmt.format(days, "day");
+}
+
+function calendarDayDiff(now: Date, zone: string | undefined, homeZone: string | undefined): number {
+  const a = getZonedParts(now, zone);
+  const b = getZonedParts(now, homeZone);
+  return Math.round((Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day)) / 86_400_000);
+}
+
+function Render(props: RenderProps<WorldClockProps>) {
+  const cfg = useConfig();
+  const locale = getLocale(cfg?.language);
+  const { display, layout } = props;
+  const homeZone = resolveTimezone(props.timezone.override, cfg?.time_zone);
+  const source = props.timezone.timeSource || "browser";
+  useTimeSource(source);
+  // analog hands animate on their own, readouts only need the visible unit
+  const { now } = useClock(display.showSeconds && display.style === "digital" ? "second" : "minute", undefined, source);
+  const hour12 = display.hourFormat === "12";
+
+  return (
+    <div className={clsx("ha-wc__container", `ha-wc__layout_${layout.mode}`, `ha-wc__style_${display.style}`)}>
+      {(props.zones || []).map((item, idx) => {
+        const zone = resolveTimezone(item.timezone, cfg?.time_zone);
+        const label = item.label || (zone ? timezoneCity(zone) : "");
+        const { hour } = getZonedParts(now, zone);
+        const isDay = hour >= DAY_START_HOUR && hour < DAY_END_HOUR;
+        const days = calendarDayDiff(now, zone, homeZone);
+        const time = formatClockTime(now, { locale, timeZone: zone }, { hour12, seconds: display.showSeconds });
+        return (
+          <div key={`${idx}-${item.timezone}`} className={clsx("ha-wc__zone", isDay ? "ha-wc__zone--day" : "ha-wc__zone--night")}>
+            {display.style === "analog" && (
+              <div className="ha-wc__analog">
+                <AnalogClockPrivate
+                  timezone={zone}
+                  timeSource={source}
+                  showSecondHand={display.showSeconds}
+                  labelStyle="none"
+                  ticks="hour"
+                  locale={locale}
+                />
+              </div>
+            )}
+            <div className="ha-wc__details">
+              <div className="ha-wc__label">
+                {display.showDayNight && (
+                  <span className="ha-wc__daynight" role="img" aria-label={isDay ? "Day" : "Night"}>
+                    {isDay ? "☀︎" : "☾︎"}
+                  </span>
+                )}
+                {label}
+              </div>
+              <div className="ha-wc__meta">
+                {display.showDayOffset && days !== 0 && (
+                  <span className="ha-wc__day_offset">{dayOffsetLabel(days, locale)}</span>
+                )}
+                {display.showUtcOffset && zone && (
+                  <span className="ha-wc__utc_offset">{formatGmtOffset(getTimezoneOffset(now, zone))}</span>
+                )}
+              </div>
+            </div>
+            {display.style === "digital" && (
+              <div className="ha-wc__time" suppressHydrationWarning>
+                {time}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export const config: ComponentConfig<WorldClockProps> = {
+  label: "WorldClock",
+  fields: {
+    zones: {
+      type: "array",
+      label: "Clocks",
+      description: "Cities or timezones to show, in order.",
+      getItemSummary: (item: WorldClockZone) => item.label || (item.timezone === "user-settings" ? "Home" : timezoneCity(item.timezone)),
+      defaultItemProps: { label: "", timezone: "user-settings" },
+      default: [
+        { label: "", timezone: "user-settings" },
+        { label: "London", timezone: "Europe/London" },
+        { label: "New York", timezone: "America/New_York" },
+        { label: "Tokyo", timezone: "Asia/Tokyo" },
+      ],
+      arrayFields: {
+        label: {
+          type: "text",
+          label: "Label",
+          description: "Name shown for this clock, leave empty to use the city of the timezone.",
+          default: "",
+        },
+        timezone: timezoneOverrideField("Timezone of this clock."),
+      },
+    },
+    layout: {
+      type: "object",
+      label: "Layout",
+      description: "Arrange the clocks as rows or as a grid of cards.",
+      section: { expanded: false },
+      objectFields: {
+        mode: {
+          type: "select",
+          label: "Layout",
+          default: "list",
+          options: [
+            { label: "List", value: "list" },
+            { label: "Grid", value: "grid" },
+          ],
+          description: "List shows one row per clock, grid wraps cards into columns.",
+        },
+        columnWidth: {
+          type: "unit",
+          label: "Minimum Column Width",
+          default: "10rem",
+          visible: (data) => data.layout?.mode === "grid",
+          description: "Cards never get narrower than this, the grid fits as many columns as it can.",
+        },
+        gap: {
+          type: "unit",
+          label: "Gap",
+          default: "0.75rem",
+          description: "Space between clocks.",
+        },
+      },
+    },
+    display: {
+      type: "object",
+      label: "Display",
+      description: "What each clock shows and how.",
+      section: { expanded: false },
+      objectFields: {
+        style: {
+          type: "select",
+          label: "Clock Style",
+          default: "digital",
+          options: [
+            { label: "Digital", value: "digital" },
+            { label: "Analog", value: "analog" },
+          ],
+          description: "Compact digital readout or a mini analog face.",
+        },
+        hourFormat: {
+          type: "select",
+          label: "Hour Format",
+          default: "24",
+          options: [
+            { label: "24 Hour", value: "24" },
+            { label: "12 Hour", value: "12" },
+          ],
+          visible: (data) => data.display?.style === "digital",
+          description: "Use 24-hour or 12-hour (AM/PM) mode.",
+        },
+        showSeconds: {
+          type: "switch",
+          label: "Seconds",
+          default: false,
+          description: "Show seconds (second hand for analog clocks).",
+        },
+        showDayOffset: {
+          type: "switch",
+          label: "Day Offset",
+          default: true,
+          description: "Show \"tomorrow\" / \"yesterday\" when a clock is on a different day to the home timezone.",
+        },
+        showUtcOffset: {
+          type: "switch",
+          label: "UTC Offset",
+          default: true,
+          description: "Show the current offset, e.g. GMT+05:30.",
+        },
+        showDayNight: {
+          type: "switch",
+          label: "Day / Night",
+          default: true,
+          description: "Sun or moon next to the label. Approximate: daytime is 06:00 to 18:00 local time, not the real sunrise / sunset.",
+        },
+        fontSize: {
+          type: "unit",
+          label: "Font Size",
+          default: "1rem",
+          description: "Base font size, the time is shown larger.",
+        },
+        analogSize: {
+          type: "unit",
+          label: "Analog Size",
+          default: "4rem",
+          visible: (data) => data.display?.style === "analog",
+          description: "Width & height of each analog face.",
+        },
+        color: {
+          type: "color",
+          label: "Text Color",
+          default: "var(--clr-on-surface-a0, currentColor)",
+          description: "Color of labels and times.",
+        },
+        faceColor: {
+          type: "color",
+          label: "Face Color",
+          default: "var(--clr-primary-a70)",
+          visible: (data) => data.display?.style === "analog",
+          description: "Fill color of the analog faces.",
+        },
+      },
+    },
+    timezone: {
+      type: "object",
+      label: "Timezone",
+      description: "Home timezone the day offsets are measured against.",
+      section: { expanded: false },
+      objectFields: {
+        override: timezoneOverrideField(
+          "Home timezone, defaults to your Home Assistant user setting."
+        ),
+        timeSource: timeSourceField(),
+      },
+    },
+  },
+  styles(props) {
+    const { display, layout } = props;
+    return css`
+      &.ha-wc__container {
+        font-size: ${display.fontSize};
+        color: ${display.color};
+        display: flex;
+        flex-direction: column;
+        gap: ${layout.gap};
+      }
+      &.ha-wc__layout_grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(${layout.columnWidth}, 1fr));
+      }
+      .ha-wc__zone {
+        display: flex;
+        align-items: center;
+        gap: var(--space-3, 0.75rem);
+      }
+      &.ha-wc__layout_grid .ha-wc__zone {
+        flex-direction: column;
+        text-align: center;
+        padding: var(--space-3, 0.75rem);
+        border-radius: 0.5rem;
+        background: var(--clr-surface-a10);
+      }
+      .ha-wc__details {
+        flex: 1;
+        min-width: 0;
+      }
+      .ha-wc__label {
+        display: flex;
+        align-items: center;
+        gap: 0.35em;
+        font-weight: 500;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      &.ha-wc__layout_grid .ha-wc__label {
+        justify-content: center;
+      }
+      .ha-wc__meta {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 0 0.75em;
+        font-size: 0.75em;
+        opacity: 0.7;
+      }
+      &.ha-wc__layout_grid .ha-wc__meta {
+        justify-content: center;
+      }
+      .ha-wc__daynight {
+        opacity: 0.8;
+      }
+      .ha-wc__zone--day .ha-wc__daynight {
+        color: var(--clr-warning-a0, #f5b400);
+      }
+      .ha-wc__time {
+        font-size: 1.75em;
+        font-variant-numeric: tabular-nums;
+        line-height: 1;
+        white-space: nowrap;
+      }
+      .ha-wc__analog {
+        width: ${display.analogSize};
+        height: ${display.analogSize};
+        flex: none;
+        > svg {
+          width: 100%;
+          height: 100%;
+          .frame {
+            fill: ${display.faceColor};
+            stroke: currentColor;
+            stroke-width: 4px;
+          }
+          .hour-hand line,
+          .minute-hand line,
+          .five-minute-marker,
+          .center-dot {
+            stroke: currentColor;
+            fill: currentColor;
+          }
+          .hour-hand line,
+          .minute-hand line {
+            stroke-width: 10px;
+          }
+          ${analogHandAnimations(false)}
+        }
+      }
+    `;
+  },
+  render: Render,
+};
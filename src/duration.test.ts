@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { parseDuration, splitDuration } from "./duration";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+describe("splitDuration", () => {
+  it("lets the largest shown unit absorb the ones above it", () => {
+    expect(splitDuration(50 * HOUR, ["hours", "minutes"])).toEqual({ days: 0, hours: 50, minutes: 0, seconds: 0 });
+    expect(splitDuration(50 * HOUR, ["days", "hours"])).toEqual({ days: 2, hours: 2, minutes: 0, seconds: 0 });
+  });
+
+  it("rounds a countdown up, so it reaches 0 at the target", () => {
+    expect(splitDuration(30 * SECOND, ["minutes"]).minutes).toBe(1);
+    expect(splitDuration(HOUR - 1, ["hours", "minutes"])).toMatchObject({ hours: 1, minutes: 0 });
+    expect(splitDuration(0, ["minutes"]).minutes).toBe(0);
+  });
+
+  it("rounds elapsed time down, so a count-up starts at 0", () => {
+    expect(splitDuration(30 * SECOND, ["minutes"], "down").minutes).toBe(0);
+    expect(splitDuration(MINUTE, ["minutes"], "down").minutes).toBe(1);
+    expect(splitDuration(HOUR - 1, ["hours", "minutes"], "down")).toMatchObject({ hours: 0, minutes: 59 });
+  });
+});
+
+describe("parseDuration", () => {
+  it("reads Home Assistant duration strings", () => {
+    expect(parseDuration("0:09:12")).toBe(9 * MINUTE + 12 * SECOND);
+    expect(parseDuration("1 day, 2:00:00")).toBe(26 * HOUR);
+    expect(parseDuration("soon")).toBeNull();
+  });
+});
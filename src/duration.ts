@@ -0,0 +1,73 @@
+// Splitting a length of time into the units a component shows.
+
+export type DurationUnit = "days" | "hours" | "minutes" | "seconds";
+
+export const DURATION_UNITS: DurationUnit[] = ["days", "hours", "minutes", "seconds"];
+
+const UNIT_MS: Record<DurationUnit, number> = {
+  days: 86_400_000,
+  hours: 3_600_000,
+  minutes: 60_000,
+  seconds: 1000,
+};
+
+export type DurationParts = Record<DurationUnit, number>;
+
+/**
+ * Splits `ms` (absolute value) into the `shown` units. The largest shown unit
+ * absorbs everything above it (hours only: 50 hours, not 2 days 2 hours).
+ * The smallest rounds up by default, so a countdown reaches 0 exactly at its
+ * target; elapsed time rounds down, so a count-up starts at 0. Units that
+ * aren't shown are 0.
+ */
+export function splitDuration(ms: number, shown: DurationUnit[], rounding: "up" | "down" = "up"): DurationParts {
+  const parts: DurationParts = { days: 0, hours: 0, minutes: 0, seconds: 0 };
+  const units = DURATION_UNITS.filter((u) => shown.includes(u));
+  if (units.length === 0) return parts;
+  const smallest = UNIT_MS[units[units.length - 1]];
+  const round = rounding === "up" ? Math.ceil : Math.floor;
+  let rest = round(Math.abs(ms) / smallest) * smallest;
+  for (const unit of units) {
+    parts[unit] = Math.floor(rest / UNIT_MS[unit]);
+    rest -= parts[unit] * UNIT_MS[unit];
+  }
+  return parts;
+}
+
+/**
+ * Milliseconds in a Home Assistant duration string, e.g. "0:09:12",
+ * "01:30:00" or "1 day, 2:00:00" (Python timedelta). Null when unparsable.
+ */
+export function parseDuration(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value * 1000 : null;
+  if (typeof value !== "string") return null;
+  const m = /^(?:(-?\d+) days?, )?(-?\d+):(\d{2}):(\d{2})(?:\.(\d+))?$/.exec(value.trim());
+  if (!m) return null;
+  const [, days, h, min, sec, frac] = m;
+  const fraction = frac ? parseFloat(`0.${frac}`) : 0;
+  return ((+(days || 0) * 24 + +h) * 3600 + +min * 60 + +sec + fraction) * 1000;
+}
+
+const unitFormatters = new Map<string, Intl.NumberFormat>();
+
+/** Localized name of `unit` for `value`, e.g. "days" / "día" / "Tage", taken from Intl unit formatting. */
+export function durationUnitLabel(
+  value: number,
+  unit: DurationUnit,
+  locale: string | undefined,
+  style: "long" | "short" | "narrow" = "long"
+): string {
+  const key = `${locale || ""}|${unit}|${style}`;
+  let fmt = unitFormatters.get(key);
+  if (!fmt) {
+    // Intl wants the singular unit identifier
+    fmt = new Intl.NumberFormat(locale, { style: "unit", unit: unit.slice(0, -1), unitDisplay: style });
+    unitFormatters.set(key, fmt);
+  }
+  return fmt
+    .formatToParts(value)
+    .filter((p) => p.type === "unit")
+    .map((p) => p.value)
+    .join("")
+    .trim();
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { entityTimestamp, isDateOnlyTimestamp, parseTimestampValue, TimestampEntity } from "./entityTime";
+import { formatDateParts } from "./format";
+
+const NOW = new Date("2025-10-20T10:30:00Z");
+
+function entity(state: string, attributes: Record<string, unknown> = {}): TimestampEntity {
+  const changed = "2025-10-20T08:00:00+00:00";
+  return { entity_id: "input_datetime.holiday", state, attributes, last_changed: changed, last_updated: changed };
+}
+
+describe("parseTimestampValue", () => {
+  it("reads values without an offset in the server timezone", () => {
+    expect(parseTimestampValue("2025-10-23", "America/Los_Angeles", NOW)).toEqual(new Date("2025-10-23T07:00:00Z"));
+    expect(parseTimestampValue("2025-10-23 18:45:00", "Europe/Berlin", NOW)).toEqual(new Date("2025-10-23T16:45:00Z"));
+  });
+
+  it("keeps the offset of full timestamps", () => {
+    expect(parseTimestampValue("2025-10-23T18:45:00+02:00", "America/Los_Angeles", NOW)).toEqual(
+      new Date("2025-10-23T16:45:00Z")
+    );
+  });
+
+  it("returns null for values that are not a time", () => {
+    expect(parseTimestampValue("unknown", "UTC", NOW)).toBeNull();
+    expect(parseTimestampValue({}, "UTC", NOW)).toBeNull();
+  });
+});
+
+describe("isDateOnlyTimestamp", () => {
+  it("tells calendar dates from timestamps", () => {
+    const dateOnly = entity("2025-10-23", { next: "2025-10-24", at: "2025-10-24T09:00:00+02:00" });
+    expect(isDateOnlyTimestamp(dateOnly, "")).toBe(true);
+    expect(isDateOnlyTimestamp(dateOnly, "next")).toBe(true);
+    expect(isDateOnlyTimestamp(dateOnly, "at")).toBe(false);
+    expect(isDateOnlyTimestamp(dateOnly, "last_changed")).toBe(false);
+    expect(isDateOnlyTimestamp(entity("unavailable", { next: "2025-10-24" }), "")).toBe(false);
+    expect(isDateOnlyTimestamp(null, "")).toBe(false);
+  });
+
+  it("keeps a date on its day when read and formatted in UTC", () => {
+    const date = entity("2025-10-23");
+    // midnight in Los Angeles is still the 22nd in Honolulu
+    const shifted = entityTimestamp(date, "", "America/Los_Angeles", NOW)!;
+    expect(formatDateParts(shifted, { locale: "en-US", timeZone: "Pacific/Honolulu" }, { day: "numeric" }).day).toBe(
+      "22"
+    );
+    const civil = entityTimestamp(date, "", "UTC", NOW)!;
+    expect(formatDateParts(civil, { locale: "en-US", timeZone: "UTC" }, { day: "numeric" }).day).toBe("23");
+  });
+});
@@ -0,0 +1,102 @@
+// Reads a point in time out of a Home Assistant entity: an input_datetime, a
+// timestamp / date sensor, an attribute such as next_alarm, or the entity's
+// own last_changed / last_updated.
+import { getZonedParts, zonedTimeToDate } from "./timezone";
+
+// the parts of a HassEntity used here
+export interface TimestampEntity {
+  entity_id: string;
+  state: string;
+  attributes: Record<string, unknown>;
+  last_changed: string;
+  last_updated: string;
+}
+
+// "" reads the state, last_changed / last_updated the entity's own timestamps, anything else an attribute
+export const STATE_VALUE = "";
+
+const UNAVAILABLE_STATES = ["unknown", "unavailable", "none", ""];
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_ONLY = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+// input_datetime with date and time, no offset: "2025-10-23 07:30:00"
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/;
+// timestamp sensors, last_changed: "2025-10-23T05:00:00.123456+00:00"
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Parses a timestamp value as Home Assistant reports it. Values without an
+ * offset (input_datetime, date sensors) are wall-clock times in the server's
+ * timezone `serverTimeZone`; a bare time means that time today.
+ */
+export function parseTimestampValue(value: unknown, serverTimeZone: string | undefined, now: Date): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return null;
+    // unix seconds or milliseconds (android's next_alarm "Time in Milliseconds")
+    return new Date(value > 1e11 ? value : value * 1000);
+  }
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (UNAVAILABLE_STATES.includes(text.toLowerCase())) return null;
+  let m = DATE_ONLY.exec(text);
+  if (m) return zonedTimeToDate({ year: +m[1], month: +m[2], day: +m[3] }, serverTimeZone);
+  m = LOCAL_DATE_TIME.exec(text);
+  if (m) {
+    return zonedTimeToDate(
+      { year: +m[1], month: +m[2], day: +m[3], hour: +m[4], minute: +m[5], second: +(m[6] || 0) },
+      serverTimeZone
+    );
+  }
+  m = TIME_ONLY.exec(text);
+  if (m) {
+    const today = getZonedParts(now, serverTimeZone);
+    return zonedTimeToDate({ ...today, hour: +m[1], minute: +m[2], second: +(m[3] || 0) }, serverTimeZone);
+  }
+  // only ISO strings, Date.parse alone happily reads names like "Bin 1" as dates
+  if (!ISO_WITH_OFFSET.test(text)) return null;
+  // engines differ on microseconds and the space separator, trim to what all accept
+  const parsed = Date.parse(text.replace(" ", "T").replace(/(\.\d{3})\d+/, "$1"));
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+}
+
+// raw value of `field`, undefined when there is none to read
+function fieldValue(entity: TimestampEntity, field: string): unknown {
+  if (field === "last_changed" || field === "last_updated") return entity[field];
+  if (field !== STATE_VALUE) return entity.attributes[field];
+  // an unavailable entity may keep stale attributes, don't fall back to them
+  if (UNAVAILABLE_STATES.includes(entity.state.toLowerCase())) return undefined;
+  return entity.state;
+}
+
+/** The point in time held by `field` of `entity`, or null when it's unknown, unavailable or not a time. */
+export function entityTimestamp(
+  entity: TimestampEntity | null | undefined,
+  field: string,
+  serverTimeZone: string | undefined,
+  now: Date
+): Date | null {
+  if (!entity) return null;
+  return parseTimestampValue(fieldValue(entity, field), serverTimeZone, now);
+}
+
+/**
+ * True when `field` of `entity` holds a date without a time ("2025-10-23",
+ * a date-only input_datetime): a calendar date rather than an instant, which
+ * should read the same in every timezone.
+ */
+export function isDateOnlyTimestamp(entity: TimestampEntity | null | undefined, field: string): boolean {
+  if (!entity) return false;
+  const value = fieldValue(entity, field);
+  return typeof value === "string" && DATE_ONLY.test(value.trim());
+}
+
+/** Attributes of `entity` whose current value reads as a point in time. */
+export function timestampAttributes(entity: TimestampEntity, serverTimeZone: string | undefined, now: Date): string[] {
+  return Object.keys(entity.attributes).filter((key) => {
+    const value = entity.attributes[key];
+    // plain numbers are usually counts or levels, only trust them under a time-like name
+    if (typeof value === "number" && !/time|stamp|alarm|millis/i.test(key)) return false;
+    return parseTimestampValue(value, serverTimeZone, now) !== null;
+  });
+}
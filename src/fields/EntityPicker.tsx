@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { Column, SelectField } from "@hakit/addon/components";
+import { useStore } from "@hakit/core";
+
+interface EntityPickerProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+interface PickableEntity {
+  entity_id: string;
+  attributes: { friendly_name?: string };
+}
+
+/** Select for the entities of one domain, e.g. every `timer.*`. */
+export function EntityPicker({ id, value, onChange, domain }: EntityPickerProps & { domain: string }) {
+  const entities = useStore((s) => s.entities) as Record<string, PickableEntity> | undefined;
+  // only rebuild when entities of the domain come or go, not on every state change
+  const ids = Object.keys(entities || {})
+    .filter((entityId) => entityId.startsWith(`${domain}.`))
+    .sort();
+  const options = useMemo(
+    () =>
+      ids.map((entityId) => {
+        const name = entities?.[entityId]?.attributes.friendly_name;
+        return { label: name ? `${name} (${entityId})` : entityId, value: entityId };
+      }),
+    [ids.join(",")]
+  );
+  const selected = options.find((o) => o.value === value) || {
+    label: value || `Select a ${domain} entity`,
+    value: value || "",
+  };
+  return (
+    <Column style={{ padding: "var(--space-3)" }}>
+      <SelectField
+        id={id}
+        name={id}
+        label="Entity"
+        value={selected}
+        options={options}
+        helperText={
+          value && !entities?.[value]
+            ? "Entity not found in Home Assistant."
+            : options.length === 0
+              ? `No ${domain} entities found.`
+              : undefined
+        }
+        onChange={(opt) => onChange(opt.value)}
+      />
+    </Column>
+  );
+}
+
+/** Entity field limited to `domain`. */
+export function entityField(domain: string, description: string) {
+  return {
+    type: "custom" as const,
+    label: "Entity",
+    description,
+    default: "",
+    render({ value, onChange, id }: EntityPickerProps) {
+      return <EntityPicker id={id} value={value} onChange={onChange} domain={domain} />;
+    },
+  };
+}
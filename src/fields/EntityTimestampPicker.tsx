@@ -0,0 +1,116 @@
+import { useMemo } from "react";
+import { Column, SelectField } from "@hakit/addon/components";
+import { useConfig, useStore } from "@hakit/core";
+import { entityTimestamp, timestampAttributes, TimestampEntity, STATE_VALUE } from "../entityTime";
+
+export interface EntityTimestampRef {
+  entity: string; // entity id, "" when none picked yet
+  attribute: string; // "" for the state, last_changed / last_updated, or an attribute name
+}
+
+// input_datetime and timestamp / date sensors first, they are what people are after
+function timeLike(entity: TimestampEntity): boolean {
+  const deviceClass = entity.attributes.device_class;
+  return (
+    entity.entity_id.startsWith("input_datetime.") ||
+    deviceClass === "timestamp" ||
+    deviceClass === "date"
+  );
+}
+
+function entityLabel(entity: TimestampEntity): string {
+  const name = entity.attributes.friendly_name;
+  return typeof name === "string" && name ? `${name} (${entity.entity_id})` : entity.entity_id;
+}
+
+interface EntityTimestampPickerProps {
+  id: string;
+  value: EntityTimestampRef | undefined;
+  onChange: (value: EntityTimestampRef) => void;
+}
+
+/** Entity + attribute selector for components that format a timestamp taken from Home Assistant. */
+export function EntityTimestampPicker({ id, value, onChange }: EntityTimestampPickerProps) {
+  const cfg = useConfig();
+  const entities = useStore((s) => s.entities) as Record<string, TimestampEntity> | undefined;
+  const current: EntityTimestampRef = { entity: value?.entity || "", attribute: value?.attribute || STATE_VALUE };
+  const selectedEntity = current.entity ? entities?.[current.entity] : undefined;
+
+  // entity ids only change when entities are added or removed, not on every state change
+  const ids = Object.keys(entities || {}).sort().join(",");
+  const entityOptions = useMemo(() => {
+    const list = Object.values(entities || {});
+    const sorted = [...list.filter(timeLike), ...list.filter((e) => !timeLike(e))];
+    return sorted.map((e) => ({ label: entityLabel(e), value: e.entity_id }));
+  }, [ids]);
+
+  const attributeOptions = useMemo(() => {
+    const now = new Date();
+    const base = [
+      { label: "State", value: STATE_VALUE },
+      { label: "Last changed", value: "last_changed" },
+      { label: "Last updated", value: "last_updated" },
+    ];
+    if (!selectedEntity) return base;
+    const extra = timestampAttributes(selectedEntity, cfg?.time_zone, now).map((key) => ({
+      label: `Attribute: ${key}`,
+      value: key,
+    }));
+    // keep a saved attribute selectable even while its value isn't a time
+    if (current.attribute && ![...base, ...extra].some((o) => o.value === current.attribute)) {
+      extra.push({ label: `Attribute: ${current.attribute}`, value: current.attribute });
+    }
+    return [...base, ...extra];
+  }, [selectedEntity, cfg?.time_zone, current.attribute]);
+
+  const preview = selectedEntity
+    ? entityTimestamp(selectedEntity, current.attribute, cfg?.time_zone, new Date())
+    : null;
+  const missing = { label: current.entity || "Select an entity", value: current.entity };
+
+  return (
+    <Column style={{ padding: "var(--space-3)", gap: "var(--space-2)" }}>
+      <SelectField
+        id={id}
+        name={id}
+        label="Entity"
+        value={entityOptions.find((o) => o.value === current.entity) || missing}
+        options={entityOptions}
+        helperText={
+          current.entity && !selectedEntity
+            ? "Entity not found in Home Assistant."
+            : "An input_datetime, a timestamp or date sensor, or any entity with a time attribute."
+        }
+        onChange={(opt) => onChange({ entity: opt.value, attribute: STATE_VALUE })}
+      />
+      <SelectField
+        id={`${id}-attribute`}
+        name={`${id}-attribute`}
+        label="Value"
+        value={attributeOptions.find((o) => o.value === current.attribute) || attributeOptions[0]}
+        options={attributeOptions}
+        helperText={
+          !selectedEntity
+            ? "Pick an entity first."
+            : preview
+              ? `Currently ${preview.toISOString()}`
+              : `No time in this value right now (state: ${selectedEntity.state}).`
+        }
+        onChange={(opt) => onChange({ ...current, attribute: opt.value })}
+      />
+    </Column>
+  );
+}
+
+/** `source.entity` field: which entity value DateText formats. */
+export function entityTimestampField(description: string) {
+  return {
+    type: "custom" as const,
+    label: "Entity",
+    description,
+    default: { entity: "", attribute: STATE_VALUE } as EntityTimestampRef,
+    render({ value, onChange, id }: EntityTimestampPickerProps) {
+      return <EntityTimestampPicker id={id} value={value} onChange={onChange} />;
+    },
+  };
+}
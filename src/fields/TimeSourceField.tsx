@@ -0,0 +1,66 @@
+import { Column, SelectField } from "@hakit/addon/components";
+import { TimeSource } from "../clock";
+import { useClock, useTimeSource } from "../hooks";
+import { ServerTimeStatus } from "../serverTime";
+
+const TIME_SOURCE_OPTIONS: { label: string; value: TimeSource }[] = [
+  { label: "This device", value: "browser" },
+  { label: "Home Assistant server", value: "home-assistant" },
+];
+
+// e.g. "Home Assistant is 2.4 s ahead of this device (12 samples, last 5 s ago)"
+function describeSkew(status: ServerTimeStatus, now: number): string {
+  if (status.offsetMs === null) return "Waiting for the first event from Home Assistant to measure the clock offset…";
+  const seconds = Math.abs(status.offsetMs) / 1000;
+  const skew =
+    seconds < 0.1
+      ? "Home Assistant and this device agree (within 0.1 s)"
+      : `Home Assistant is ${seconds.toFixed(1)} s ${status.offsetMs > 0 ? "ahead of" : "behind"} this device`;
+  const age = Math.max(0, Math.round((now - status.lastSampleAt) / 1000));
+  return `${skew} (${status.samples} sample${status.samples === 1 ? "" : "s"}, last ${age} s ago)`;
+}
+
+interface TimeSourceFieldProps {
+  id: string;
+  value: TimeSource;
+  onChange: (value: TimeSource) => void;
+}
+
+function TimeSourceSelect({ id, value, onChange }: TimeSourceFieldProps) {
+  const source = value || "browser";
+  const status = useTimeSource(source);
+  // refresh the "last n s ago" readout
+  useClock("second");
+  const selected = TIME_SOURCE_OPTIONS.find((o) => o.value === source) || TIME_SOURCE_OPTIONS[0];
+  return (
+    <Column style={{ padding: "var(--space-3)" }}>
+      <SelectField
+        id={id}
+        name={id}
+        label="Time Source"
+        value={selected}
+        options={TIME_SOURCE_OPTIONS}
+        helperText={
+          source === "home-assistant"
+            ? describeSkew(status, Date.now())
+            : "Uses this device's clock as is."
+        }
+        onChange={(opt) => onChange(opt.value)}
+      />
+    </Column>
+  );
+}
+
+/** `timezone.timeSource` field shared by every component. */
+export function timeSourceField() {
+  return {
+    type: "custom" as const,
+    label: "Time Source",
+    description:
+      "Trust this device's clock, or correct it to the Home Assistant server's time for tablets with poor NTP.",
+    default: "browser" as TimeSource,
+    render({ value, onChange, id }: TimeSourceFieldProps) {
+      return <TimeSourceSelect id={id} value={value} onChange={onChange} />;
+    },
+  };
+}
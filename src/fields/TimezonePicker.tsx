@@ -0,0 +1,304 @@
+import React, { useMemo, useRef, useState } from "react";
+import { useConfig } from "@hakit/core";
+import { timezoneOptions, TimezoneOption } from "../constants";
+import { getLocale } from "../helpers";
+import { useClock } from "../hooks";
+import { createDateFormatter } from "../format";
+import { formatGmtOffset, getTimezoneOffset, resolveTimezoneId, TIMEZONE_ALIASES } from "../timezone";
+import { ZONE_COUNTRIES } from "../zones";
+
+const RECENT_STORAGE_KEY = "hakit-date-and-time:recent-timezones";
+const MAX_RECENT = 5;
+
+function readRecent(): string[] {
+  try {
+    const raw = window.localStorage.getItem(RECENT_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((v) => typeof v === "string") : [];
+  } catch {
+    // storage unavailable (private mode, sandboxed iframe)
+    return [];
+  }
+}
+
+function pushRecent(value: string): string[] {
+  const next = [value, ...readRecent().filter((v) => v !== value)].slice(0, MAX_RECENT);
+  try {
+    window.localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // ignore, recents are a convenience only
+  }
+  return next;
+}
+
+// e.g. GMT+5:30, the short form people type when searching
+function shortGmt(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  const mm = abs % 60;
+  return `GMT${sign}${Math.floor(abs / 60)}${mm ? `:${String(mm).padStart(2, "0")}` : ""}`;
+}
+
+const abbreviationFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// e.g. CET, PDT; zones without a common abbreviation come back as GMT+x
+function abbreviation(date: Date, zone: string): string {
+  try {
+    let fmt = abbreviationFormatters.get(zone);
+    if (!fmt) {
+      fmt = new Intl.DateTimeFormat("en-US", { timeZone: zone, timeZoneName: "short" });
+      abbreviationFormatters.set(zone, fmt);
+    }
+    return fmt.formatToParts(date).find((p) => p.type === "timeZoneName")?.value || "";
+  } catch {
+    return "";
+  }
+}
+
+interface PickerEntry {
+  option: TimezoneOption;
+  group: string;
+  offset: number;
+  abbr: string;
+  haystack: string;
+}
+
+// one heading per region, zones by their current offset within it; the
+// user-settings entry (no group) stays on top and "Other" (UTC) goes last
+function compareEntries(a: PickerEntry, b: PickerEntry): number {
+  const rank = (e: PickerEntry) => (!e.group ? 0 : e.group === "Other" ? 2 : 1);
+  return (
+    rank(a) - rank(b) ||
+    a.group.localeCompare(b.group) ||
+    a.offset - b.offset ||
+    (a.option.city || "").localeCompare(b.option.city || "")
+  );
+}
+
+function buildEntries(now: Date, locale: string | undefined): PickerEntry[] {
+  let regionNames: Intl.DisplayNames | undefined;
+  try {
+    regionNames = new Intl.DisplayNames(locale ? [locale, "en"] : ["en"], { type: "region" });
+  } catch {
+    regionNames = undefined;
+  }
+  return timezoneOptions(now).map((option) => {
+    if (option.value === "user-settings") {
+      return { option, group: "", offset: 0, abbr: "", haystack: option.label.toLowerCase() };
+    }
+    const offset = getTimezoneOffset(now, option.value);
+    const abbr = abbreviation(now, option.value);
+    const code = ZONE_COUNTRIES[TIMEZONE_ALIASES[option.value] || option.value] || ZONE_COUNTRIES[option.value];
+    const country = code ? regionNames?.of(code) || code : "";
+    const haystack = [
+      option.value,
+      TIMEZONE_ALIASES[option.value] || "",
+      option.city,
+      option.region,
+      country,
+      code,
+      abbr,
+      formatGmtOffset(offset),
+      shortGmt(offset),
+      shortGmt(offset).replace("GMT", "UTC"),
+    ]
+      .join(" ")
+      .replace(/_/g, " ")
+      .toLowerCase();
+    return { option, group: option.region || "Other", offset, abbr, haystack };
+  }).sort(compareEntries);
+}
+
+function matches(entry: PickerEntry, query: string): boolean {
+  if (!query) return true;
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => entry.haystack.includes(term));
+}
+
+export interface TimezonePickerProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Searchable timezone selector used by every component's timezone override.
+ * Type a city, country, abbreviation (CET, PDT) or offset (+5:30, GMT-3);
+ * each option shows the current local time, recently used zones come first.
+ */
+export function TimezonePicker({ id, value, onChange }: TimezonePickerProps) {
+  const cfg = useConfig();
+  const locale = getLocale(cfg?.language);
+  const { now } = useClock("minute");
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const [recent, setRecent] = useState<string[]>(() => readRecent());
+  const listRef = useRef<HTMLDivElement>(null);
+  // labels and offsets only need rebuilding when the offset of a zone could change
+  const hourKey = Math.floor(now.getTime() / 3_600_000);
+  const entries = useMemo(() => buildEntries(now, locale), [hourKey, locale]);
+  const timeFormatter = (zone: string) =>
+    createDateFormatter({ locale, timeZone: zone }, { hour: "2-digit", minute: "2-digit" });
+
+  const selectedValue = value === "user-settings" ? value : resolveTimezoneId(value) || value;
+  const selected = entries.find((e) => e.option.value === selectedValue);
+
+  const visible = useMemo(() => {
+    const filtered = entries.filter((e) => matches(e, query));
+    const recentEntries = recent
+      .map(resolveTimezoneId)
+      .map((v) => filtered.find((e) => e.option.value === v))
+      .filter((e): e is PickerEntry => !!e)
+      .map((e) => ({ ...e, group: "Recently used" }));
+    return [...recentEntries, ...filtered];
+  }, [entries, query, recent]);
+
+  const choose = (entry: PickerEntry | undefined) => {
+    if (!entry) return;
+    if (entry.option.value !== "user-settings") setRecent(pushRecent(entry.option.value));
+    onChange(entry.option.value);
+    setQuery("");
+    setOpen(false);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      const next = Math.max(0, Math.min(visible.length - 1, active + step));
+      setActive(next);
+      listRef.current?.querySelector(`[data-index="${next}"]`)?.scrollIntoView({ block: "nearest" });
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      choose(visible[active]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+      setQuery("");
+    }
+  };
+
+  return (
+    <div style={{ padding: "var(--space-3)", position: "relative" }}>
+      <input
+        id={id}
+        name={id}
+        type="search"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={`${id}-listbox`}
+        autoComplete="off"
+        value={open ? query : selected?.option.label || value}
+        placeholder="Search city, country, abbreviation or offset"
+        onFocus={() => {
+          setOpen(true);
+          setActive(0);
+        }}
+        onBlur={() => setOpen(false)}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onKeyDown={onKeyDown}
+        style={{
+          width: "100%",
+          boxSizing: "border-box",
+          padding: "var(--space-2) var(--space-3)",
+          background: "var(--clr-surface-a10)",
+          color: "var(--clr-text-a0, inherit)",
+          border: "1px solid var(--clr-surface-a30)",
+          borderRadius: 4,
+          font: "inherit",
+        }}
+      />
+      {open && (
+        <div
+          id={`${id}-listbox`}
+          ref={listRef}
+          role="listbox"
+          style={{
+            marginTop: "var(--space-1)",
+            maxHeight: "18rem",
+            overflowY: "auto",
+            background: "var(--clr-surface-a10)",
+            border: "1px solid var(--clr-surface-a30)",
+            borderRadius: 4,
+          }}
+        >
+          {visible.length === 0 && (
+            <div style={{ padding: "var(--space-2) var(--space-3)", opacity: 0.7 }}>No matching timezones</div>
+          )}
+          {visible.map((entry, i) => {
+            const showHeading = entry.group && entry.group !== visible[i - 1]?.group;
+            const isUserSettings = entry.option.value === "user-settings";
+            return (
+              <React.Fragment key={`${entry.group}-${entry.option.value}`}>
+                {showHeading && (
+                  <div
+                    role="presentation"
+                    style={{
+                      padding: "var(--space-2) var(--space-3) var(--space-1)",
+                      fontSize: "0.75rem",
+                      textTransform: "uppercase",
+                      opacity: 0.6,
+                    }}
+                  >
+                    {entry.group}
+                  </div>
+                )}
+                <div
+                  role="option"
+                  data-index={i}
+                  aria-selected={entry.option.value === selectedValue}
+                  // mousedown so the input's blur doesn't close the list first
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    choose(entry);
+                  }}
+                  onMouseEnter={() => setActive(i)}
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    gap: "var(--space-2)",
+                    padding: "var(--space-1) var(--space-3)",
+                    cursor: "pointer",
+                    background: i === active ? "var(--clr-surface-a30)" : "transparent",
+                    fontWeight: entry.option.value === selectedValue ? 600 : 400,
+                  }}
+                >
+                  <span>{isUserSettings ? entry.option.label : entry.option.city || entry.option.value}</span>
+                  {!isUserSettings && (
+                    <span style={{ opacity: 0.7, whiteSpace: "nowrap" }}>
+                      {formatGmtOffset(entry.offset)}
+                      {entry.abbr && !entry.abbr.startsWith("GMT") ? ` · ${entry.abbr}` : ""}
+                      {" · "}
+                      {timeFormatter(entry.option.value).format(now)}
+                    </span>
+                  )}
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** `timezone.override` field shared by every component. */
+export function timezoneOverrideField(description: string) {
+  return {
+    type: "custom" as const,
+    label: "Timezone",
+    description,
+    default: "user-settings",
+    render({ value, onChange, id }: TimezonePickerProps) {
+      return <TimezonePicker id={id} value={value} onChange={onChange} />;
+    },
+  };
+}
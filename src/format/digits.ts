@@ -0,0 +1,73 @@
+// Digits for numbers the engine derives itself (ordinal days, ISO weeks,
+// padding, analog clock labels) so they match the digits Intl uses for the
+// rest of the date.
+export type NumberingSystem =
+  | "latn" // 0123
+  | "arab" // ٠١٢٣ (eastern arabic)
+  | "arabext" // ۰۱۲۳ (persian / urdu)
+  | "deva" // ०१२३
+  | "beng" // ০১২৩
+  | "thai" // ๐๑๒๓
+  | "fullwide" // ０１２３
+  | "hanidec"; // 〇一二三
+
+export interface DigitsContext {
+  locale?: string;
+  numberingSystem?: NumberingSystem; // undefined -> the locale's default (or its -u-nu- extension)
+}
+
+const numberFormatters = new Map<string, Intl.NumberFormat>();
+
+/** `value` as an integer in the context's digits, zero padded to `minDigits`, e.g. ٠٣ or 〇三. */
+export function formatDigits(value: number, ctx: DigitsContext, minDigits = 1): string {
+  const key = `${ctx.locale || ""}|${ctx.numberingSystem || ""}|${minDigits}`;
+  let fmt = numberFormatters.get(key);
+  if (!fmt) {
+    fmt = new Intl.NumberFormat(ctx.locale, {
+      numberingSystem: ctx.numberingSystem,
+      minimumIntegerDigits: minDigits,
+      useGrouping: false,
+      maximumFractionDigits: 0,
+    });
+    numberFormatters.set(key, fmt);
+  }
+  return fmt.format(value);
+}
+
+// any script's decimal digits (hanidec uses ideographs, not Nd), built at
+// runtime as the `u` flag needs an es6 target
+const DECIMAL_DIGITS = new RegExp("^[\\p{Nd}〇一二三四五六七八九]+$", "u");
+
+/** True when `text` is made of decimal digits only, in any numbering system. */
+export function isDigits(text: string): boolean {
+  return DECIMAL_DIGITS.test(text);
+}
+
+/**
+ * Splits a formatted value into the characters shown one per card / cell.
+ * Unlike `split("")` this never cuts a digit outside the basic plane in half.
+ */
+export function splitDigits(text: string): string[] {
+  return Array.from(text);
+}
+
+// first code point of each script's 0-9 run; hanidec isn't a run
+const DIGIT_ZEROS = [0x30, 0x660, 0x6f0, 0x966, 0x9e6, 0xe50, 0xff10];
+const HANIDEC = "〇一二三四五六七八九";
+
+/** 0-9 for a decimal digit in any of the supported numbering systems, otherwise null. */
+export function digitValue(char: string): number | null {
+  const cp = char.codePointAt(0) ?? -1;
+  for (const zero of DIGIT_ZEROS) if (cp >= zero && cp <= zero + 9) return cp - zero;
+  const han = HANIDEC.indexOf(char);
+  return han >= 0 ? han : null;
+}
+
+/** All ten digits of the numbering system `char` is a digit of, 0 first; null for anything else. */
+export function digitGlyphs(char: string): string[] | null {
+  const value = digitValue(char);
+  if (value === null) return null;
+  if (HANIDEC.includes(char)) return Array.from(HANIDEC);
+  const zero = (char.codePointAt(0) ?? 0) - value;
+  return Array.from({ length: 10 }, (_, i) => String.fromCodePoint(zero + i));
+}
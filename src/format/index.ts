@@ -0,0 +1,7 @@
+export { formatDigits } from "./digits";
+export type { DigitsContext, NumberingSystem } from "./digits";
+export * from "./parts";
+export * from "./presets";
+export { ordinalDay } from "./ordinal";
+export * from "./tokens";
+export { isoWeek } from "./week";
@@ -0,0 +1,47 @@
+import { formatDigits, NumberingSystem } from "./digits";
+
+// Ordinal day of month per language. Suffixes are keyed by the
+// Intl.PluralRules ordinal category of the day, "other" is the fallback.
+interface OrdinalFormat {
+  suffixes: Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+  // dates only use the ordinal for the 1st of the month (1er, 1º), the rest stay plain
+  firstOnly?: boolean;
+}
+
+const ORDINAL_FORMATS: Record<string, OrdinalFormat> = {
+  en: { suffixes: { one: "st", two: "nd", few: "rd", other: "th" } }, // 1st 2nd 3rd 4th
+  fr: { suffixes: { one: "er", other: "" } }, // 1er 2 3
+  de: { suffixes: { other: "." } }, // 1. 2. 3.
+  es: { suffixes: { other: ".º" } }, // 1.º 2.º 3.º
+  it: { suffixes: { other: "º" }, firstOnly: true }, // 1º 2 3
+  pt: { suffixes: { other: "º" }, firstOnly: true }, // 1º 2 3
+  nl: { suffixes: { other: "e" } }, // 1e 2e 3e
+  sv: { suffixes: { one: ":a", other: ":e" } }, // 1:a 2:a 3:e
+  ja: { suffixes: { other: "日" } }, // 1日 2日 3日 (no ordinal form, native day)
+};
+
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+
+function ordinalCategory(language: string, day: number): Intl.LDMLPluralRule {
+  let rules = pluralRulesCache.get(language);
+  if (!rules) {
+    rules = new Intl.PluralRules(language, { type: "ordinal" });
+    pluralRulesCache.set(language, rules);
+  }
+  return rules.select(day);
+}
+
+/**
+ * Day of month in the ordinal form of `locale`, e.g. 3rd (en), 3. (de),
+ * 3:e (sv) or 1er (fr). Languages without an ordinal form for dates fall
+ * back to the plain day number. Digits follow `numberingSystem` / the locale.
+ */
+export function ordinalDay(day: number, locale?: string, numberingSystem?: NumberingSystem): string {
+  const language = (locale || "en").split("-")[0].toLowerCase();
+  const format = ORDINAL_FORMATS[language];
+  const digits = formatDigits(day, { locale, numberingSystem });
+  if (!format) return digits;
+  if (format.firstOnly && day !== 1) return digits;
+  const category = ordinalCategory(language, day);
+  return `${digits}${format.suffixes[category] ?? format.suffixes.other}`;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { formatClockTime, formatDateParts } from ".";
+import { getZonedParts } from "../timezone";
+
+// Fixed instants in zones whose date differs from UTC for part of the day:
+// +14 (Kiritimati), -11 (Pago Pago), +5:45 (Kathmandu) and +13 (Tonga).
+// Each row is [instant, zone, day of month, ordinal, AM/PM, weekday, weekday 0=Sun].
+const MATRIX: [string, string, number, string, "AM" | "PM", string, number][] = [
+  ["2025-10-20T10:30:00Z", "Pacific/Kiritimati", 21, "21st", "AM", "Tue", 2],
+  ["2025-10-20T10:30:00Z", "Pacific/Pago_Pago", 19, "19th", "PM", "Sun", 0],
+  ["2025-10-20T10:30:00Z", "Asia/Kathmandu", 20, "20th", "PM", "Mon", 1],
+  ["2025-10-20T10:30:00Z", "Pacific/Tongatapu", 20, "20th", "PM", "Mon", 1],
+  ["2025-10-20T23:59:00Z", "Pacific/Kiritimati", 21, "21st", "PM", "Tue", 2],
+  ["2025-10-20T23:59:00Z", "Pacific/Pago_Pago", 20, "20th", "PM", "Mon", 1],
+  ["2025-10-20T23:59:00Z", "Asia/Kathmandu", 21, "21st", "AM", "Tue", 2],
+  ["2025-10-20T23:59:00Z", "Pacific/Tongatapu", 21, "21st", "PM", "Tue", 2],
+  ["2025-12-31T11:00:00Z", "Pacific/Kiritimati", 1, "1st", "AM", "Thu", 4],
+  ["2025-12-31T11:00:00Z", "Pacific/Pago_Pago", 31, "31st", "AM", "Wed", 3],
+  ["2025-12-31T11:00:00Z", "Asia/Kathmandu", 31, "31st", "PM", "Wed", 3],
+  ["2025-12-31T11:00:00Z", "Pacific/Tongatapu", 1, "1st", "AM", "Thu", 4],
+  ["2025-03-01T00:10:00Z", "Pacific/Kiritimati", 1, "1st", "PM", "Sat", 6],
+  ["2025-03-01T00:10:00Z", "Pacific/Pago_Pago", 28, "28th", "PM", "Fri", 5],
+  ["2025-03-01T00:10:00Z", "Asia/Kathmandu", 1, "1st", "AM", "Sat", 6],
+  ["2025-03-01T00:10:00Z", "Pacific/Tongatapu", 1, "1st", "PM", "Sat", 6],
+];
+
+describe("formatDateParts in far-off timezones", () => {
+  it.each(MATRIX)("%s in %s", (iso, timeZone, day, ordinal, dayPeriod, weekday, weekdayIndex) => {
+    const date = new Date(iso);
+    const ctx = { locale: "en-US", timeZone };
+    expect(formatDateParts(date, ctx, { day: "numeric" }).day).toBe(String(day));
+    expect(formatDateParts(date, ctx, { day: "ordinal" }).day).toBe(ordinal);
+    expect(formatDateParts(date, ctx, { hour: "numeric", hourCycle: "h12" }).dayPeriod).toBe(dayPeriod);
+    expect(formatDateParts(date, ctx, { weekday: "short" }).weekday).toBe(weekday);
+    expect(getZonedParts(date, timeZone)).toMatchObject({ day, weekday: weekdayIndex });
+  });
+});
+
+describe("formatClockTime", () => {
+  const date = new Date("2025-10-20T21:05:07Z");
+
+  it.each([
+    // Intl puts a narrow no-break space before AM / PM
+    ["en-US", true, "09:05\u202fPM"],
+    ["en-US", false, "21:05"],
+    ["ja", true, "午後09:05"],
+    ["ko", true, "오후 09:05"],
+    ["zh", true, "下午09:05"],
+    ["fi", false, "21.05"],
+    ["da", false, "21.05"],
+    ["ar-EG", false, "٢١:٠٥"],
+  ])("%s, 12 hour %s", (locale, hour12, expected) => {
+    expect(formatClockTime(date, { locale, timeZone: "UTC" }, { hour12 })).toBe(expected);
+  });
+
+  it("puts seconds where the locale does", () => {
+    expect(formatClockTime(date, { locale: "fi", timeZone: "UTC" }, { hour12: false, seconds: true })).toBe("21.05.07");
+    expect(formatClockTime(date, { locale: "en-US", timeZone: "Asia/Kathmandu" }, { hour12: true, seconds: true })).toBe(
+      "02:50:07\u202fAM"
+    );
+  });
+});
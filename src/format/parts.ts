@@ -0,0 +1,236 @@
+import { formatDigits, isDigits, NumberingSystem } from "./digits";
+import { ordinalDay } from "./ordinal";
+import { isoWeek } from "./week";
+import { getZonedParts } from "../timezone";
+
+// Every part the engine can produce
+export type DatePartKey =
+  | "year"
+  | "month"
+  | "day"
+  | "weekday"
+  | "hour"
+  | "minute"
+  | "second"
+  | "dayPeriod"
+  | "week"
+  | "era"
+  | "relatedYear" // gregorian year alongside a cyclic year (chinese)
+  | "yearName"; // cyclic year name (chinese), e.g. 乙巳
+
+// Which parts to produce and in what style. Omitted parts are not formatted.
+export interface DatePartSpec {
+  year?: "numeric" | "2-digit";
+  month?: "numeric" | "2-digit" | "short" | "long" | "narrow";
+  day?: "numeric" | "2-digit" | "ordinal"; // ordinal -> 20th
+  weekday?: "short" | "long" | "narrow";
+  hour?: "numeric" | "2-digit";
+  minute?: "numeric" | "2-digit";
+  second?: "numeric" | "2-digit";
+  hourCycle?: "h12" | "h23";
+  week?: "numeric" | "2-digit"; // ISO week of the year
+  era?: "short" | "long" | "narrow";
+}
+
+export type CalendarId =
+  | "gregory"
+  | "hebrew"
+  | "islamic-umalqura"
+  | "persian"
+  | "buddhist"
+  | "japanese"
+  | "chinese"
+  | "indian";
+
+// calendars whose year number restarts with each era, the year alone is ambiguous
+const ERA_YEAR_CALENDARS: string[] = ["japanese"];
+
+export interface FormatContext {
+  locale?: string;
+  timeZone?: string; // IANA timezone, undefined -> system timezone
+  calendar?: CalendarId; // undefined -> the locale's default calendar
+  numberingSystem?: NumberingSystem; // undefined -> the locale's default digits
+}
+
+export type DateParts = Partial<Record<DatePartKey, string>>;
+
+// sequence of parts & literal separators, e.g. ["day", { sep: "/" }, "month"]
+export type FormatToken = DatePartKey | { sep: string };
+export type FormatSequence = FormatToken[];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function toIntlOptions(
+  ctx: FormatContext,
+  spec: DatePartSpec
+): Intl.DateTimeFormatOptions {
+  const opts: Intl.DateTimeFormatOptions = { timeZone: ctx.timeZone };
+  if (ctx.calendar) opts.calendar = ctx.calendar;
+  if (ctx.numberingSystem) opts.numberingSystem = ctx.numberingSystem;
+  if (spec.year) opts.year = spec.year;
+  if (spec.month) opts.month = spec.month;
+  if (spec.day) opts.day = spec.day === "2-digit" ? "2-digit" : "numeric";
+  if (spec.weekday) opts.weekday = spec.weekday;
+  if (spec.hour) opts.hour = spec.hour;
+  if (spec.minute) opts.minute = spec.minute;
+  if (spec.second) opts.second = spec.second;
+  if (spec.hour && spec.hourCycle) opts.hourCycle = spec.hourCycle;
+  if (spec.era) opts.era = spec.era;
+  return opts;
+}
+
+/** Returns a (cached) Intl formatter for the given context and part spec. */
+export function createDateFormatter(
+  ctx: FormatContext,
+  spec: DatePartSpec
+): Intl.DateTimeFormat {
+  const opts = toIntlOptions(ctx, spec);
+  const key = `${ctx.locale || ""}|${JSON.stringify(opts)}`;
+  let fmt = formatterCache.get(key);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat(ctx.locale, opts);
+    formatterCache.set(key, fmt);
+  }
+  return fmt;
+}
+
+// parts taken straight from Intl, "week" is derived
+const INTL_PARTS: string[] = [
+  "year",
+  "month",
+  "day",
+  "weekday",
+  "hour",
+  "minute",
+  "second",
+  "dayPeriod",
+  "era",
+  "relatedYear",
+  "yearName",
+];
+
+// zero in the same digits as the value (٠٣, not 0٣)
+const pad2 = (v: string, ctx: FormatContext) =>
+  Array.from(v).length === 1 && isDigits(v) ? `${formatDigits(0, ctx)}${v}` : v;
+
+// Sequences only know "year"; make it meaningful in calendars that split it up
+function applyCalendarYear(out: DateParts, date: Date, ctx: FormatContext, spec: DatePartSpec) {
+  // chinese has no numbered year, only a related gregorian year and/or a cyclic name
+  if (!out.year) out.year = out.relatedYear || out.yearName;
+  // japanese years restart per era: "R7" / "Reiwa 7" / "令和7" rather than a bare 7
+  if (
+    out.year &&
+    !spec.era &&
+    ctx.calendar &&
+    ERA_YEAR_CALENDARS.includes(ctx.calendar)
+  ) {
+    const era = out.era || calendarEra(date, ctx);
+    if (era) out.year = /^[a-z]{2,}$/i.test(era) ? `${era} ${out.year}` : `${era}${out.year}`;
+  }
+}
+
+// day of month in a non-gregorian calendar (28 Tishri), undefined for gregorian
+function calendarDay(date: Date, ctx: FormatContext): number | undefined {
+  if (!ctx.calendar || ctx.calendar === "gregory") return undefined;
+  const day = createDateFormatter(
+    { locale: "en-US", timeZone: ctx.timeZone, calendar: ctx.calendar },
+    { day: "numeric" }
+  )
+    .formatToParts(date)
+    .find((p) => p.type === "day")?.value;
+  return day ? parseInt(day, 10) : undefined;
+}
+
+function calendarEra(date: Date, ctx: FormatContext): string | undefined {
+  return createDateFormatter(ctx, { era: "short", year: "numeric" })
+    .formatToParts(date)
+    .find((p) => p.type === "era")?.value;
+}
+
+/**
+ * Formats `date` into its individual parts, using the same rules as the
+ * clock components: 2-digit parts are always zero padded, ordinal days get
+ * their suffix and 12 hour specs always carry a day period.
+ */
+export function formatDateParts(
+  date: Date,
+  ctx: FormatContext,
+  spec: DatePartSpec
+): DateParts {
+  const out: DateParts = {};
+  for (const p of createDateFormatter(ctx, spec).formatToParts(date)) {
+    // relatedYear / yearName are missing from the ES2021 part types
+    const type = p.type as string;
+    if (INTL_PARTS.includes(type)) out[type as DatePartKey] = p.value;
+  }
+  if (spec.year) applyCalendarYear(out, date, ctx, spec);
+  // some locales ignore 2-digit for a lone part
+  if (out.month && spec.month === "2-digit") out.month = pad2(out.month, ctx);
+  if (out.day && spec.day === "2-digit") out.day = pad2(out.day, ctx);
+  if (out.hour && spec.hour === "2-digit") out.hour = pad2(out.hour, ctx);
+  if (out.minute && spec.minute === "2-digit") out.minute = pad2(out.minute, ctx);
+  if (out.second && spec.second === "2-digit") out.second = pad2(out.second, ctx);
+  const needsAmPm = spec.hourCycle === "h12" && !out.dayPeriod;
+  if (spec.day !== "ordinal" && !spec.week && !needsAmPm) return out;
+  // derived values must come from the formatting timezone, not the browser's
+  const zoned = getZonedParts(date, ctx.timeZone);
+  if (spec.day === "ordinal") out.day = ordinalDay(calendarDay(date, ctx) ?? zoned.day, ctx.locale, ctx.numberingSystem);
+  if (spec.week) {
+    const week = isoWeek(zoned.year, zoned.month, zoned.day);
+    out.week = formatDigits(week, ctx, spec.week === "2-digit" ? 2 : 1);
+  }
+  if (needsAmPm) out.dayPeriod = zoned.hour < 12 ? "AM" : "PM";
+  return out;
+}
+
+/**
+ * Joins parts following `sequence`. Explicit separators are kept verbatim and
+ * a single space is inserted between adjacent parts without one.
+ */
+export function composeParts(parts: DateParts, sequence: FormatSequence): string {
+  let out = "";
+  let lastWasPart = false;
+  sequence.forEach((token) => {
+    if (typeof token === "string") {
+      if (lastWasPart && out.length > 0) out += " ";
+      out += parts[token] || "";
+      lastWasPart = true;
+    } else {
+      out += token.sep;
+      lastWasPart = false; // explicit separator resets adjacency
+    }
+  });
+  return out;
+}
+
+/** Formats `date` straight to a string for the given spec and sequence. */
+export function formatDate(
+  date: Date,
+  ctx: FormatContext,
+  spec: DatePartSpec,
+  sequence: FormatSequence
+): string {
+  return composeParts(formatDateParts(date, ctx, spec), sequence);
+}
+
+/**
+ * A clock time ("09:05 PM", "午前09:05", "09.05") in the locale's own order and
+ * separators, with the zero padding and day period of formatDateParts.
+ */
+export function formatClockTime(
+  date: Date,
+  ctx: FormatContext,
+  { hour12, seconds = false }: { hour12: boolean; seconds?: boolean }
+): string {
+  const spec: DatePartSpec = {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: seconds ? "2-digit" : undefined,
+    hourCycle: hour12 ? "h12" : "h23",
+  };
+  const parts = formatDateParts(date, ctx, spec);
+  const layout = createDateFormatter(ctx, spec).formatToParts(date);
+  const out = layout.map((p) => (p.type === "literal" ? p.value : parts[p.type as DatePartKey] ?? p.value)).join("");
+  // a locale without a day period of its own still gets the AM / PM formatDateParts adds
+  return parts.dayPeriod && !layout.some((p) => p.type === "dayPeriod") ? `${out} ${parts.dayPeriod}` : out;
+}
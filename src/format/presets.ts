@@ -0,0 +1,178 @@
+import {
+  composeParts,
+  formatDateParts,
+  DateParts,
+  DatePartSpec,
+  FormatContext,
+  FormatSequence,
+} from "./parts";
+import { isDigits } from "./digits";
+
+// Preset definition structure
+export interface DatePresetDef {
+  label: string;
+  description: string;
+  sequence: FormatSequence; // sequence of parts & separators
+  spec: DatePartSpec; // parts needed for this sequence
+}
+
+export const DATE_PRESETS = {
+  weekday: {
+    label: "Weekday (Long)",
+    description: "Monday",
+    sequence: ["weekday"],
+    spec: { weekday: "long" },
+  },
+  weekday_short: {
+    label: "Weekday (Short)",
+    description: "Mon",
+    sequence: ["weekday"],
+    spec: { weekday: "short" },
+  },
+  day_numeric: {
+    label: "Day (Numeric)",
+    description: "3",
+    sequence: ["day"],
+    spec: { day: "numeric" },
+  },
+  day_ordinal: {
+    label: "Day (Ordinal)",
+    description: "3rd",
+    sequence: ["day"],
+    spec: { day: "ordinal" },
+  },
+  month_long: {
+    label: "Month (Long)",
+    description: "November",
+    sequence: ["month"],
+    spec: { month: "long" },
+  },
+  month_short: {
+    label: "Month (Short)",
+    description: "Nov",
+    sequence: ["month"],
+    spec: { month: "short" },
+  },
+  month_day_ordinal: {
+    label: "Month Day Ordinal",
+    description: "November 3rd",
+    sequence: ["month", "day"],
+    spec: { month: "long", day: "ordinal" },
+  },
+  weekday_month_day_ordinal: {
+    label: "Weekday, Month Day Ordinal",
+    description: "Monday, November 3rd",
+    sequence: ["weekday", { sep: ", " }, "month", "day"],
+    spec: { weekday: "long", month: "long", day: "ordinal" },
+  },
+  month_day_year: {
+    label: "Month Day Year",
+    description: "October 20 2025",
+    sequence: ["month", "day", "year"],
+    spec: { month: "long", day: "numeric", year: "numeric" },
+  },
+  month_day_year_ordinal: {
+    label: "Month Day Year Ordinal",
+    description: "November 3rd 2025",
+    sequence: ["month", "day", "year"],
+    spec: { month: "long", day: "ordinal", year: "numeric" },
+  },
+  weekday_month_day: {
+    label: "Weekday Month Day",
+    description: "Mon Oct 20",
+    sequence: ["weekday", "month", "day"],
+    spec: { weekday: "short", month: "short", day: "numeric" },
+  },
+  weekday_month_day_year: {
+    label: "Weekday Month Day Year",
+    description: "Mon Oct 20 2025",
+    sequence: ["weekday", "month", "day", "year"],
+    spec: { weekday: "short", month: "short", day: "numeric", year: "numeric" },
+  },
+  dmy_slash: {
+    label: "D/M/Y Slashes",
+    description: "20/10/2025",
+    sequence: ["day", { sep: "/" }, "month", { sep: "/" }, "year"],
+    spec: { year: "numeric", month: "2-digit", day: "2-digit" },
+  },
+  ymd_slash: {
+    label: "Y/M/D Slashes",
+    description: "2025/10/20",
+    sequence: ["year", { sep: "/" }, "month", { sep: "/" }, "day"],
+    spec: { year: "numeric", month: "2-digit", day: "2-digit" },
+  },
+  mdy_slash: {
+    label: "M/D/Y Slashes",
+    description: "10/20/2025",
+    sequence: ["month", { sep: "/" }, "day", { sep: "/" }, "year"],
+    spec: { year: "numeric", month: "2-digit", day: "2-digit" },
+  },
+  iso: {
+    label: "ISO (Date)",
+    description: "2025-10-20",
+    sequence: ["year", { sep: "-" }, "month", { sep: "-" }, "day"],
+    spec: { year: "numeric", month: "2-digit", day: "2-digit" },
+  },
+  ymd_dot: {
+    label: "Y.M.D Dots",
+    description: "2025.10.20",
+    sequence: ["year", { sep: "." }, "month", { sep: "." }, "day"],
+    spec: { year: "numeric", month: "2-digit", day: "2-digit" },
+  },
+  dmy_dot: {
+    label: "D.M.Y Dots",
+    description: "20.10.2025",
+    sequence: ["day", { sep: "." }, "month", { sep: "." }, "year"],
+    spec: { year: "numeric", month: "2-digit", day: "2-digit" },
+  },
+  full_long: {
+    label: "Full Long",
+    description: "Monday, October 20, 2025",
+    sequence: ["weekday", { sep: ", " }, "month", "day", { sep: ", " }, "year"],
+    spec: { weekday: "long", month: "long", day: "numeric", year: "numeric" },
+  },
+  weekday_day_ordinal: {
+    label: "Weekday Day Ordinal",
+    description: "Saturday 20th",
+    sequence: ["weekday", "day"],
+    spec: { weekday: "long", day: "ordinal" },
+  },
+  weekday_month_day_year_ordinal: {
+    label: "Weekday Month Day Year Ordinal",
+    description: "Monday November 3rd 2025",
+    sequence: ["weekday", "month", "day", "year"],
+    spec: { weekday: "long", month: "long", day: "ordinal", year: "numeric" },
+  },
+  iso_with_weekday: {
+    label: "Weekday ISO",
+    description: "Mon 2025-10-20",
+    sequence: ["weekday", { sep: " " }, "year", { sep: "-" }, "month", { sep: "-" }, "day"],
+    spec: { weekday: "short", year: "numeric", month: "2-digit", day: "2-digit" },
+  },
+} satisfies Record<string, DatePresetDef>;
+
+export type DatePresetKey = keyof typeof DATE_PRESETS;
+
+/** Formats `date` using one of the named DateText presets. */
+export function formatPreset(date: Date, ctx: FormatContext, preset: DatePresetKey): string {
+  const def: DatePresetDef = DATE_PRESETS[preset] || DATE_PRESETS.full_long;
+  const parts = formatDateParts(date, ctx, def.spec);
+  return composeParts(parts, calendarSafeSequence(def.sequence, def.spec, parts));
+}
+
+/**
+ * Numeric layouts (dmy_slash, ymd_dot, ...) assume a month number. Calendars
+ * that only have month names (hebrew: 28 Tishri 5786) get spaces instead of
+ * the slashes / dashes / dots so the result doesn't read "28/Tishri/5786".
+ */
+export function calendarSafeSequence(
+  sequence: FormatSequence,
+  spec: DatePartSpec,
+  parts: DateParts
+): FormatSequence {
+  const numericMonth = spec.month === "numeric" || spec.month === "2-digit";
+  if (!numericMonth || !parts.month || isDigits(parts.month)) return sequence;
+  return sequence.map((token) =>
+    typeof token !== "string" && /^[/.-]$/.test(token.sep) ? { sep: " " } : token
+  );
+}
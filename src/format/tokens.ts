@@ -0,0 +1,193 @@
+import {
+  composeParts,
+  formatDateParts,
+  DatePartKey,
+  DatePartSpec,
+  FormatContext,
+  FormatSequence,
+} from "./parts";
+
+// Format patterns, e.g. "dddd, MMMM Do YYYY", "EEE d MMM" or "[Week] W · EEE d MMM".
+//
+//   YYYY / YY      year (full / 2-digit), y works too
+//   M / MM         month number (numeric / 2-digit)
+//   MMM / MMMM     month name (short / long), MMMMM narrow
+//   D / DD / Do    day of month (numeric / 2-digit / ordinal), d and dd work too
+//   ddd / dddd     weekday name (short / long)
+//   E..EEE / EEEE  weekday name (short / long), EEEEE narrow
+//   W / WW         ISO week number (numeric / 2-digit), w and ww work too
+//   H / HH         hour, 24 hour clock
+//   h / hh         hour, 12 hour clock
+//   m / mm         minute
+//   s / ss         second
+//   A / a          AM/PM (localized day period)
+//   G..GGG / GGGG  era (short / long), GGGGG narrow, e.g. AH, Reiwa
+//   r              related gregorian year (chinese calendar)
+//   U              cyclic year name (chinese calendar), e.g. 乙巳
+//   [text] 'text'  literal text, '' is a single quote
+//
+// Anything else (punctuation, spaces, unknown letters) is kept as a literal separator.
+
+export interface ParsedPattern {
+  spec: DatePartSpec;
+  sequence: FormatSequence;
+}
+
+type TokenRule = (count: number, spec: DatePartSpec) => DatePartKey;
+
+const numericOr2Digit = (count: number) => (count >= 2 ? "2-digit" : "numeric");
+
+const year: TokenRule = (count, spec) => {
+  spec.year = count === 2 ? "2-digit" : "numeric";
+  return "year";
+};
+const week: TokenRule = (count, spec) => {
+  spec.week = numericOr2Digit(count);
+  return "week";
+};
+const dayPeriod: TokenRule = (_count, spec) => {
+  spec.hourCycle = "h12";
+  return "dayPeriod";
+};
+
+const TOKEN_RULES: Record<string, TokenRule> = {
+  G: (count, spec) => {
+    spec.era = count <= 3 ? "short" : count === 4 ? "long" : "narrow";
+    return "era";
+  },
+  r: (_count, spec) => {
+    spec.year ||= "numeric";
+    return "relatedYear";
+  },
+  U: (_count, spec) => {
+    spec.year ||= "numeric";
+    return "yearName";
+  },
+  Y: year,
+  y: year,
+  M: (count, spec) => {
+    const styles = ["numeric", "2-digit", "short", "long", "narrow"] as const;
+    spec.month = styles[Math.min(count, styles.length) - 1];
+    return "month";
+  },
+  D: (count, spec) => {
+    spec.day = numericOr2Digit(count);
+    return "day";
+  },
+  d: (count, spec) => {
+    if (count <= 2) {
+      spec.day = numericOr2Digit(count);
+      return "day";
+    }
+    spec.weekday = count === 3 ? "short" : "long";
+    return "weekday";
+  },
+  E: (count, spec) => {
+    spec.weekday = count <= 3 ? "short" : count === 4 ? "long" : "narrow";
+    return "weekday";
+  },
+  W: week,
+  w: week,
+  H: (count, spec) => {
+    spec.hour = numericOr2Digit(count);
+    spec.hourCycle = "h23";
+    return "hour";
+  },
+  h: (count, spec) => {
+    spec.hour = numericOr2Digit(count);
+    spec.hourCycle = "h12";
+    return "hour";
+  },
+  m: (count, spec) => {
+    spec.minute = numericOr2Digit(count);
+    return "minute";
+  },
+  s: (count, spec) => {
+    spec.second = numericOr2Digit(count);
+    return "second";
+  },
+  A: dayPeriod,
+  a: dayPeriod,
+};
+
+const patternCache = new Map<string, ParsedPattern>();
+
+/**
+ * Parses a format pattern into the part spec and the part / separator
+ * sequence used by the formatting engine. Results are cached per pattern.
+ */
+export function parseFormatPattern(pattern: string): ParsedPattern {
+  const cached = patternCache.get(pattern);
+  if (cached) return cached;
+  const spec: DatePartSpec = {};
+  const sequence: FormatSequence = [];
+  const pushLiteral = (text: string) => {
+    if (!text) return;
+    const last = sequence[sequence.length - 1];
+    if (last && typeof last !== "string") last.sep += text;
+    else sequence.push({ sep: text });
+  };
+  const pushPart = (part: DatePartKey) => {
+    // adjacent tokens ("HHmm") must not get the engine's automatic space
+    if (typeof sequence[sequence.length - 1] === "string") sequence.push({ sep: "" });
+    sequence.push(part);
+  };
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    if (ch === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      const close = end === -1 ? pattern.length : end;
+      pushLiteral(pattern.slice(i + 1, close));
+      i = close + 1;
+      continue;
+    }
+    if (ch === "'") {
+      if (pattern[i + 1] === "'") {
+        pushLiteral("'");
+        i += 2;
+        continue;
+      }
+      let text = "";
+      let j = i + 1;
+      while (j < pattern.length) {
+        if (pattern[j] === "'" && pattern[j + 1] === "'") {
+          text += "'";
+          j += 2;
+        } else if (pattern[j] === "'") {
+          break;
+        } else {
+          text += pattern[j++];
+        }
+      }
+      pushLiteral(text);
+      i = j + 1;
+      continue;
+    }
+    const rule = TOKEN_RULES[ch];
+    if (!rule) {
+      pushLiteral(ch);
+      i++;
+      continue;
+    }
+    let count = 1;
+    while (pattern[i + count] === ch) count++;
+    if (ch === "D" && count === 1 && pattern[i + 1] === "o") {
+      spec.day = "ordinal";
+      pushPart("day");
+      i += 2;
+      continue;
+    }
+    pushPart(rule(count, spec));
+    i += count;
+  }
+  const parsed = { spec, sequence };
+  patternCache.set(pattern, parsed);
+  return parsed;
+}
+
+/** Formats `date` using a format pattern, see `parseFormatPattern`. */
+export function formatPattern(date: Date, ctx: FormatContext, pattern: string): string {
+  const { spec, sequence } = parseFormatPattern(pattern);
+  return composeParts(formatDateParts(date, ctx, spec), sequence);
+}
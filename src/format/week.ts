@@ -0,0 +1,9 @@
+// ISO-8601 week number (weeks start Monday, week 1 holds the first Thursday)
+export function isoWeek(year: number, month: number, day: number): number {
+  const t = new Date(Date.UTC(year, month - 1, day));
+  const dayNum = t.getUTCDay() || 7;
+  // move to the Thursday of this week, its year owns the week
+  t.setUTCDate(t.getUTCDate() + 4 - dayNum);
+  const yearStart = Date.UTC(t.getUTCFullYear(), 0, 1);
+  return Math.ceil(((t.getTime() - yearStart) / 86_400_000 + 1) / 7);
+}
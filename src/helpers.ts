@@ -1,3 +1,5 @@
+import { resolveTimezoneId } from "./timezone";
+
 export function getLocale(inputLocale: string | undefined) {
   let lang =
     inputLocale ||
@@ -9,4 +11,10 @@ export function getLocale(inputLocale: string | undefined) {
     // ignore, use default
   }
   return locale;
-}
\ No newline at end of file
+}
+// Timezone to render in: the component override, or the HA user setting for 'user-settings'.
+// Saved legacy ids (Asia/Calcutta, Europe/Kiev) resolve to whatever spelling the engine accepts.
+export function resolveTimezone(override: string | undefined, userTimezone: string | undefined) {
+  if (!override || override === "user-settings") return resolveTimezoneId(userTimezone);
+  return resolveTimezoneId(override) ?? resolveTimezoneId(userTimezone);
+}
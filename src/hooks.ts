@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { useStore } from "@hakit/core";
+import { clockNow, subscribeClock, ClockTick, ClockUnit, TimeSource } from "./clock";
+import {
+  getServerTimeStatus,
+  startServerTimeSync,
+  subscribeServerTimeStatus,
+  ServerTimeStatus,
+} from "./serverTime";
+
+// Re-renders the calling component each time `unit` rolls over on the shared clock
+export function useClock(unit: ClockUnit, timezone?: string, source: TimeSource = "browser"): ClockTick {
+  const [tick, setTick] = useState<ClockTick>(() => ({
+    now: clockNow(source),
+    resync: false,
+  }));
+  useEffect(() => {
+    const unsubscribe = subscribeClock(unit, setTick, timezone, source);
+    // the subscription only fires on the next rollover; a new zone or source
+    // must not keep showing the old one's time until then
+    setTick({ now: clockNow(source), resync: false });
+    return unsubscribe;
+  }, [unit, timezone, source]);
+  return tick;
+}
+
+// Keeps the Home Assistant time sync running while a component uses that
+// source, and returns the measured offset for display
+export function useTimeSource(source: TimeSource): ServerTimeStatus {
+  const connection = useStore((s) => s.connection);
+  const [status, setStatus] = useState(getServerTimeStatus);
+  useEffect(() => {
+    if (source !== "home-assistant" || !connection) return;
+    const unsubscribe = subscribeServerTimeStatus(setStatus);
+    const release = startServerTimeSync(connection);
+    setStatus(getServerTimeStatus());
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [source, connection]);
+  return status;
+}
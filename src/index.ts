@@ -1,4 +1,6 @@
 // This is a placeholder entry point for rslib
 // Module Federation will handle the actual exposed components
 // DO NOT DELETE THIS FILE - it's required for the build process
-export {};
+
+// Public, framework-free formatting API: produces the same strings the components render
+export * from "./format";
@@ -0,0 +1,81 @@
+// Laying out a month as weeks for calendar grids.
+import { isoWeek } from "./format";
+
+/** 1 = Monday ... 7 = Sunday, as in Intl.Locale weekInfo. */
+export type Weekday = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export interface GridDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: Weekday;
+  inMonth: boolean; // false for the leading / trailing days of the neighbouring months
+}
+
+export interface GridWeek {
+  week: number; // ISO week of the row's Thursday
+  days: GridDay[];
+}
+
+// CLDR regions whose week doesn't start on Monday, for engines without weekInfo
+const SUNDAY_FIRST = ["US", "CA", "MX", "BR", "JP", "KR", "TW", "HK", "IL", "IN", "PH", "ZA", "TH", "ID", "SA", "PE", "CO"];
+const SATURDAY_FIRST = ["AF", "BH", "DJ", "DZ", "EG", "IQ", "IR", "JO", "KW", "LY", "OM", "QA", "SD", "SY", "AE"];
+
+interface LocaleWithWeekInfo extends Intl.Locale {
+  getWeekInfo?: () => { firstDay: number };
+  weekInfo?: { firstDay: number };
+}
+
+/**
+ * First day of the week for `locale` from Intl.Locale weekInfo (a method in
+ * newer engines, a getter in older ones), honouring a `-u-fw-` extension.
+ * Falls back to a small region table, then Monday.
+ */
+export function localeFirstDay(locale: string | undefined): Weekday {
+  try {
+    const loc = new Intl.Locale(locale || "en-US") as LocaleWithWeekInfo;
+    const info = typeof loc.getWeekInfo === "function" ? loc.getWeekInfo() : loc.weekInfo;
+    if (info && info.firstDay >= 1 && info.firstDay <= 7) return info.firstDay as Weekday;
+    const region = loc.maximize().region || "";
+    if (SUNDAY_FIRST.includes(region)) return 7;
+    if (SATURDAY_FIRST.includes(region)) return 6;
+  } catch {
+    // invalid locale, use the ISO default
+  }
+  return 1;
+}
+
+function isoWeekday(year: number, month: number, day: number): Weekday {
+  return (new Date(Date.UTC(year, month - 1, day)).getUTCDay() || 7) as Weekday;
+}
+
+/**
+ * Weeks covering `month` of `year`, each starting on `firstDay`. Only as many
+ * rows as the month needs (4 to 6); days outside the month are flagged.
+ */
+export function monthGrid(year: number, month: number, firstDay: Weekday): GridWeek[] {
+  const lead = (isoWeekday(year, month, 1) - firstDay + 7) % 7;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const rows = Math.ceil((lead + daysInMonth) / 7);
+  const weeks: GridWeek[] = [];
+  for (let row = 0; row < rows; row++) {
+    const days: GridDay[] = [];
+    for (let col = 0; col < 7; col++) {
+      // Date.UTC rolls day 0 / day 32 over into the neighbouring months
+      const d = new Date(Date.UTC(year, month - 1, 1 - lead + row * 7 + col));
+      const y = d.getUTCFullYear();
+      const m = d.getUTCMonth() + 1;
+      const day = d.getUTCDate();
+      days.push({ year: y, month: m, day, weekday: isoWeekday(y, m, day), inMonth: m === month });
+    }
+    const thursday = days.find((d) => d.weekday === 4) as GridDay;
+    weeks.push({ week: isoWeek(thursday.year, thursday.month, thursday.day), days });
+  }
+  return weeks;
+}
+
+/** Year and month `offset` months away from `year` / `month`. */
+export function addMonths(year: number, month: number, offset: number): { year: number; month: number } {
+  const index = year * 12 + (month - 1) + offset;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
@@ -0,0 +1,146 @@
+// Moon phase, illumination and the dates of the next new / full moon,
+// computed locally. Illumination comes from the sun and moon positions
+// (as SunCalc does), phase dates from Meeus' "Astronomical Algorithms"
+// ch. 49 without the planetary terms, good to a couple of minutes.
+import { sunEquatorial, toDays } from "./sun";
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86_400_000;
+const OBLIQUITY = RAD * 23.4397;
+const SUN_DISTANCE_KM = 149_598_000;
+const SYNODIC_MONTH = 29.530588861;
+
+export type MoonPhaseName =
+  | "new"
+  | "waxing-crescent"
+  | "first-quarter"
+  | "waxing-gibbous"
+  | "full"
+  | "waning-gibbous"
+  | "last-quarter"
+  | "waning-crescent";
+
+export const MOON_PHASE_LABELS: Record<MoonPhaseName, string> = {
+  new: "New Moon",
+  "waxing-crescent": "Waxing Crescent",
+  "first-quarter": "First Quarter",
+  "waxing-gibbous": "Waxing Gibbous",
+  full: "Full Moon",
+  "waning-gibbous": "Waning Gibbous",
+  "last-quarter": "Last Quarter",
+  "waning-crescent": "Waning Crescent",
+};
+
+export interface MoonInfo {
+  phase: number; // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  fraction: number; // illuminated part of the disc, 0-1
+  name: MoonPhaseName;
+  age: number; // days since the last new moon
+  nextNew: Date;
+  nextFull: Date;
+}
+
+function moonEquatorial(d: number): { ra: number; dec: number; dist: number } {
+  const l = RAD * (218.316 + 13.176396 * d); // mean longitude
+  const m = RAD * (134.963 + 13.064993 * d); // mean anomaly
+  const f = RAD * (93.272 + 13.22935 * d); // mean distance
+  const lon = l + RAD * 6.289 * Math.sin(m);
+  const lat = RAD * 5.128 * Math.sin(f);
+  return {
+    ra: Math.atan2(Math.sin(lon) * Math.cos(OBLIQUITY) - Math.tan(lat) * Math.sin(OBLIQUITY), Math.cos(lon)),
+    dec: Math.asin(Math.sin(lat) * Math.cos(OBLIQUITY) + Math.cos(lat) * Math.sin(OBLIQUITY) * Math.sin(lon)),
+    dist: 385001 - 20905 * Math.cos(m),
+  };
+}
+
+/** Phase (0-1, waxing below 0.5) and illuminated fraction of the moon at `date`. */
+export function moonIllumination(date: Date): { phase: number; fraction: number } {
+  const d = toDays(date);
+  const s = sunEquatorial(d);
+  const m = moonEquatorial(d);
+  const elongation = Math.acos(
+    Math.sin(s.dec) * Math.sin(m.dec) + Math.cos(s.dec) * Math.cos(m.dec) * Math.cos(s.ra - m.ra)
+  );
+  const inc = Math.atan2(SUN_DISTANCE_KM * Math.sin(elongation), m.dist - SUN_DISTANCE_KM * Math.cos(elongation));
+  const angle = Math.atan2(
+    Math.cos(s.dec) * Math.sin(s.ra - m.ra),
+    Math.sin(s.dec) * Math.cos(m.dec) - Math.cos(s.dec) * Math.sin(m.dec) * Math.cos(s.ra - m.ra)
+  );
+  return {
+    phase: 0.5 + (0.5 * inc * (angle < 0 ? -1 : 1)) / Math.PI,
+    fraction: (1 + Math.cos(inc)) / 2,
+  };
+}
+
+/**
+ * Time of the new moon (`k` whole) or full moon (`k` + 0.5) number `k`
+ * counted from the new moon of 2000-01-06.
+ */
+export function moonPhaseDate(k: number): Date {
+  const t = k / 1236.85;
+  const e = 1 - 0.002516 * t - 0.0000074 * t * t;
+  const m = RAD * (2.5534 + 29.1053567 * k - 0.0000014 * t * t); // sun's mean anomaly
+  const mp = RAD * (201.5643 + 385.81693528 * k + 0.0107582 * t * t); // moon's mean anomaly
+  const f = RAD * (160.7108 + 390.67050284 * k - 0.0016118 * t * t); // argument of latitude
+  const omega = RAD * (124.7746 - 1.56375588 * k + 0.0020672 * t * t);
+  const full = k % 1 !== 0;
+  const jde =
+    2451550.09766 +
+    SYNODIC_MONTH * k +
+    0.00015437 * t * t +
+    (full ? -0.40614 : -0.4072) * Math.sin(mp) +
+    (full ? 0.17302 : 0.17241) * e * Math.sin(m) +
+    (full ? 0.01614 : 0.01608) * Math.sin(2 * mp) +
+    (full ? 0.01043 : 0.01039) * Math.sin(2 * f) +
+    (full ? 0.00734 : 0.00739) * e * Math.sin(mp - m) -
+    (full ? 0.00515 : 0.00514) * e * Math.sin(mp + m) +
+    (full ? 0.00209 : 0.00208) * e * e * Math.sin(2 * m) -
+    0.00111 * Math.sin(mp - 2 * f) -
+    0.00057 * Math.sin(mp + 2 * f) +
+    0.00056 * e * Math.sin(2 * mp + m) -
+    0.00042 * Math.sin(3 * mp) +
+    0.00042 * e * Math.sin(m + 2 * f) +
+    0.00038 * e * Math.sin(m - 2 * f) -
+    0.00024 * e * Math.sin(2 * mp - m) -
+    0.00017 * Math.sin(omega);
+  // JDE is dynamical time, about 69 s ahead of UTC these years
+  return new Date((jde - 2440587.5) * DAY_MS - 69_000);
+}
+
+// first new (offset 0) or full (offset 0.5) moon after `date`
+function nextPhase(date: Date, offset: 0 | 0.5): Date {
+  let k = Math.floor((toDays(date) - 5.59766) / SYNODIC_MONTH) - 1 + offset;
+  let when = moonPhaseDate(k);
+  while (when.getTime() <= date.getTime()) when = moonPhaseDate(++k);
+  return when;
+}
+
+function phaseName(phase: number): MoonPhaseName {
+  // the four principal phases get roughly a day either side
+  const names: MoonPhaseName[] = [
+    "new",
+    "waxing-crescent",
+    "first-quarter",
+    "waxing-gibbous",
+    "full",
+    "waning-gibbous",
+    "last-quarter",
+    "waning-crescent",
+  ];
+  return names[Math.round(phase * 8) % 8];
+}
+
+/** Everything the MoonPhase component shows for `date`. */
+export function moonInfo(date: Date): MoonInfo {
+  const { phase, fraction } = moonIllumination(date);
+  const nextNew = nextPhase(date, 0);
+  const previousNew = moonPhaseDate(Math.round((toDays(nextNew) - 5.59766) / SYNODIC_MONTH) - 1);
+  return {
+    phase,
+    fraction,
+    name: phaseName(phase),
+    age: (date.getTime() - previousNew.getTime()) / DAY_MS,
+    nextNew,
+    nextFull: nextPhase(date, 0.5),
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { formatPattern } from "./format";
+import { periodBounds, periodProgress, weekThursday } from "./progress";
+
+describe("periodBounds", () => {
+  it("runs a day from midnight to midnight in the selected timezone", () => {
+    expect(periodBounds(new Date("2025-10-20T10:30:00Z"), "day", { timeZone: "Asia/Kathmandu" })).toEqual({
+      start: new Date("2025-10-19T18:15:00Z"),
+      end: new Date("2025-10-20T18:15:00Z"),
+    });
+  });
+
+  it("starts a day whose midnight is skipped at the end of the gap", () => {
+    // Santiago springs forward from 00:00 -04 straight to 01:00 -03
+    expect(periodBounds(new Date("2025-09-07T12:00:00Z"), "day", { timeZone: "America/Santiago" }).start).toEqual(
+      new Date("2025-09-07T04:00:00Z")
+    );
+  });
+
+  it("clamps a work start inside the spring-forward gap to the gap's end", () => {
+    // 02:30 doesn't exist in Berlin on 2025-03-30; work starts at 03:00 CEST
+    const options = { timeZone: "Europe/Berlin", workStart: "02:30", workEnd: "10:00" };
+    expect(periodBounds(new Date("2025-03-30T06:00:00Z"), "workday", options)).toEqual({
+      start: new Date("2025-03-30T01:00:00Z"),
+      end: new Date("2025-03-30T08:00:00Z"),
+    });
+  });
+
+  it("clamps to a half-hour gap", () => {
+    // Lord Howe Island goes from 02:00 +10:30 to 02:30 +11
+    const options = { timeZone: "Australia/Lord_Howe", workStart: "02:15", workEnd: "09:00" };
+    expect(periodBounds(new Date("2025-10-05T00:00:00Z"), "workday", options).start).toEqual(
+      new Date("2025-10-04T15:30:00Z")
+    );
+  });
+});
+
+describe("periodProgress", () => {
+  const HOUR = 3_600_000;
+
+  it("runs a 23 hour spring-forward day from 0 to 100%", () => {
+    // noon CEST on 2025-03-30, 11 of the day's 23 hours gone
+    const progress = periodProgress(new Date("2025-03-30T10:00:00Z"), "day", { timeZone: "Europe/Berlin" });
+    expect(progress.end.getTime() - progress.start.getTime()).toBe(23 * HOUR);
+    expect(progress.fraction).toBeCloseTo(11 / 23, 10);
+  });
+
+  it("runs a 25 hour fall-back day from 0 to 100%", () => {
+    // noon CET on 2025-10-26, 13 of the day's 25 hours gone
+    const progress = periodProgress(new Date("2025-10-26T11:00:00Z"), "day", { timeZone: "Europe/Berlin" });
+    expect(progress.end.getTime() - progress.start.getTime()).toBe(25 * HOUR);
+    expect(progress.fraction).toBeCloseTo(13 / 25, 10);
+  });
+});
+
+describe("weekThursday", () => {
+  const ctx = { locale: "en-US", timeZone: "America/New_York" };
+  // Sunday 2025-10-26, 14:00 in New York
+  const sunday = new Date("2025-10-26T18:00:00Z");
+
+  it("numbers a Sunday-first week by its own Thursday, as the bar restarts", () => {
+    const options = { timeZone: "America/New_York", firstDay: 7 as const };
+    expect(periodProgress(sunday, "week", options).fraction).toBeLessThan(0.1);
+    expect(formatPattern(weekThursday(sunday, options), ctx, "[Week] W")).toBe("Week 44");
+  });
+
+  it("keeps the ISO week for a Monday-first week", () => {
+    const options = { timeZone: "America/New_York", firstDay: 1 as const };
+    expect(periodProgress(sunday, "week", options).fraction).toBeGreaterThan(0.9);
+    expect(formatPattern(weekThursday(sunday, options), ctx, "[Week] W")).toBe("Week 43");
+  });
+});
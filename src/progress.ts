@@ -0,0 +1,114 @@
+// How far through the current day, work day, week, month or year `now` is.
+// Boundaries are wall-clock midnights (or work hours) in the selected
+// timezone, turned into instants, so a 23 or 25 hour DST day still runs
+// from 0 to 100% at an even pace.
+import { Weekday, addMonths } from "./monthGrid";
+import { getTimezoneOffset, getZonedParts, zonedTimeToDate } from "./timezone";
+
+export type ProgressPeriod = "day" | "workday" | "week" | "month" | "year";
+
+export interface ProgressOptions {
+  timeZone?: string;
+  firstDay?: Weekday; // week start, 1 = Monday
+  workStart?: string; // "HH:MM", work day only
+  workEnd?: string; // "HH:MM"; at or before workStart means it ends the next day
+}
+
+export interface ProgressRange {
+  start: Date;
+  end: Date;
+  fraction: number; // 0-1, clamped outside the range (before / after work hours)
+}
+
+type CivilDate = { year: number; month: number; day: number };
+
+function addDays({ year, month, day }: CivilDate, days: number): CivilDate {
+  const d = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+// "08:30" -> [8, 30]; anything unreadable counts as midnight
+function parseClock(value: string | undefined): [number, number] {
+  const match = /^(\d{1,2}):(\d{2})/.exec(value || "");
+  if (!match) return [0, 0];
+  return [Math.min(23, Number(match[1])), Math.min(59, Number(match[2]))];
+}
+
+// A wall time skipped by DST (midnight in Santiago, 02:30 in Berlin on the
+// spring-forward day) has no instant; zonedTimeToDate lands it on either side
+// of the gap, by the gap's length. A boundary has to be the first instant
+// after the gap, where the offset changes, so search for that minute.
+function wallTimeToDate(date: CivilDate, hour: number, minute: number, timeZone: string | undefined): Date {
+  const instant = zonedTimeToDate({ ...date, hour, minute }, timeZone);
+  const z = getZonedParts(instant, timeZone);
+  const wanted = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const got = Date.UTC(z.year, z.month - 1, z.day, z.hour, z.minute);
+  if (got === wanted) return instant;
+  const gap = Math.abs(got - wanted);
+  // the offset changes after `before` and at or before `after`
+  let before = got < wanted ? instant.getTime() : instant.getTime() - gap;
+  let after = before + gap;
+  const offsetAfter = getTimezoneOffset(new Date(after), timeZone);
+  while (after - before > 60_000) {
+    const mid = before + Math.floor((after - before) / 120_000) * 60_000;
+    if (getTimezoneOffset(new Date(mid), timeZone) === offsetAfter) after = mid;
+    else before = mid;
+  }
+  return new Date(after);
+}
+
+/** Start and end of the `period` containing `now`, as instants. */
+export function periodBounds(now: Date, period: ProgressPeriod, options: ProgressOptions = {}): { start: Date; end: Date } {
+  const { timeZone, firstDay = 1 } = options;
+  const z = getZonedParts(now, timeZone);
+  const today: CivilDate = { year: z.year, month: z.month, day: z.day };
+  const at = (date: CivilDate, hour = 0, minute = 0) => wallTimeToDate(date, hour, minute, timeZone);
+  switch (period) {
+    case "workday": {
+      const [startHour, startMinute] = parseClock(options.workStart);
+      const [endHour, endMinute] = parseClock(options.workEnd);
+      const overnight = endHour * 60 + endMinute <= startHour * 60 + startMinute;
+      // an overnight shift that started yesterday is still the current one until it ends
+      let shiftDay = today;
+      if (overnight && z.hour * 60 + z.minute < endHour * 60 + endMinute) shiftDay = addDays(today, -1);
+      return {
+        start: at(shiftDay, startHour, startMinute),
+        end: at(overnight ? addDays(shiftDay, 1) : shiftDay, endHour, endMinute),
+      };
+    }
+    case "week": {
+      const weekday = z.weekday === 0 ? 7 : z.weekday; // 1 = Monday ... 7 = Sunday
+      const first = addDays(today, -((weekday - firstDay + 7) % 7));
+      return { start: at(first), end: at(addDays(first, 7)) };
+    }
+    case "month": {
+      const next = addMonths(z.year, z.month, 1);
+      return { start: at({ year: z.year, month: z.month, day: 1 }), end: at({ ...next, day: 1 }) };
+    }
+    case "year":
+      return { start: at({ year: z.year, month: 1, day: 1 }), end: at({ year: z.year + 1, month: 1, day: 1 }) };
+    default:
+      return { start: at(today), end: at(addDays(today, 1)) };
+  }
+}
+
+/** The `period` containing `now` and how much of it has passed. */
+export function periodProgress(now: Date, period: ProgressPeriod, options: ProgressOptions = {}): ProgressRange {
+  const { start, end } = periodBounds(now, period, options);
+  const length = end.getTime() - start.getTime();
+  const fraction = length > 0 ? (now.getTime() - start.getTime()) / length : 0;
+  return { start, end, fraction: Math.min(1, Math.max(0, fraction)) };
+}
+
+/**
+ * Noon on the Thursday of the week (starting on `firstDay`) containing `now`.
+ * Its ISO week numbers that week, the way MonthCalendar numbers its rows, so
+ * a week label turns over together with the week's progress.
+ */
+export function weekThursday(now: Date, options: Pick<ProgressOptions, "timeZone" | "firstDay"> = {}): Date {
+  const { timeZone, firstDay = 1 } = options;
+  const z = getZonedParts(now, timeZone);
+  const weekday = z.weekday === 0 ? 7 : z.weekday; // 1 = Monday ... 7 = Sunday
+  const first = addDays({ year: z.year, month: z.month, day: z.day }, -((weekday - firstDay + 7) % 7));
+  return wallTimeToDate(addDays(first, (4 - firstDay + 7) % 7), 12, 0, timeZone);
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { msUntilCrossing, msUntilRelativeChange, relativeValue, watchRelative } from "./relativeTime";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// the label `diffMs` away and the one just after the computed change
+function labelsAround(diffMs: number) {
+  const wait = msUntilRelativeChange(diffMs);
+  const label = (d: number) => {
+    const { value, unit } = relativeValue(d);
+    return `${value} ${unit}`;
+  };
+  return { wait, before: label(diffMs - wait + 1), after: label(diffMs - wait) };
+}
+
+describe("msUntilRelativeChange", () => {
+  it("times a future target's changes from the target", () => {
+    // "in 1 hour" until exactly an hour before, then "in 59 minutes"
+    expect(labelsAround(HOUR + 20 * MINUTE)).toEqual({ wait: 20 * MINUTE + 1, before: "1 hour", after: "59 minute" });
+    expect(labelsAround(3 * HOUR + 5 * MINUTE)).toEqual({ wait: 5 * MINUTE + 1, before: "3 hour", after: "2 hour" });
+    expect(labelsAround(90 * SECOND).wait).toBe(30 * SECOND + 1);
+  });
+
+  it("times a past target's changes from the target", () => {
+    expect(labelsAround(-(HOUR + 20 * MINUTE))).toEqual({ wait: 40 * MINUTE, before: "-1 hour", after: "-2 hour" });
+    expect(labelsAround(-59 * MINUTE)).toEqual({ wait: MINUTE, before: "-59 minute", after: "-1 hour" });
+  });
+
+  it("switches unit at a custom threshold", () => {
+    // minutes: 45 shows "in 1 hour" down to 45 minutes away
+    expect(msUntilRelativeChange(50 * MINUTE, { minutes: 45 })).toBe(5 * MINUTE + 1);
+    expect(msUntilRelativeChange(-40 * MINUTE, { minutes: 45 })).toBe(MINUTE);
+  });
+
+  it("never waits longer than a unit of the shown value", () => {
+    const longest = { second: SECOND, minute: MINUTE, hour: HOUR, day: DAY, week: 7 * DAY, month: 31 * DAY, year: 366 * DAY };
+    for (const diff of [5 * SECOND, 12 * MINUTE, 5 * HOUR, 3 * DAY, -3 * DAY, -20 * DAY, -200 * DAY, 800 * DAY]) {
+      expect(msUntilRelativeChange(diff)).toBeLessThanOrEqual(longest[relativeValue(diff).unit]);
+    }
+  });
+});
+
+describe("msUntilCrossing", () => {
+  it("is only finite in the direction time moves the target", () => {
+    expect(msUntilCrossing(3 * DAY, 2 * DAY)).toBe(DAY + 1);
+    expect(msUntilCrossing(-DAY, 2 * DAY)).toBe(DAY);
+    expect(msUntilCrossing(DAY, 2 * DAY)).toBe(Infinity);
+    expect(msUntilCrossing(-3 * DAY, 2 * DAY)).toBe(Infinity);
+  });
+});
+
+describe("watchRelative", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // the labels seen at each change while the fake clock runs for `runMs`
+  function watch(diffMs: number, runMs: number, limitMs?: number): string[] {
+    vi.useFakeTimers({ now: Date.UTC(2025, 9, 20, 10, 30) });
+    const target = Date.now() + diffMs;
+    const labels: string[] = [];
+    const stop = watchRelative(
+      target,
+      () => Date.now(),
+      () => {
+        const { value, unit } = relativeValue(target - Date.now());
+        labels.push(`${value} ${unit}`);
+      },
+      { limitMs }
+    );
+    vi.advanceTimersByTime(runMs);
+    stop();
+    return labels;
+  }
+
+  it("keeps changing a future target's label, unit after unit", () => {
+    expect(watch(5 * MINUTE + 30 * SECOND, 4 * MINUTE + 33 * SECOND)).toEqual([
+      "4 minute",
+      "3 minute",
+      "2 minute",
+      "1 minute",
+      "59 second",
+      "58 second",
+      "57 second",
+    ]);
+  });
+
+  it("keeps changing a past target's label, every second and then every minute", () => {
+    expect(watch(-57.25 * SECOND, 5 * MINUTE)).toEqual([
+      "-58 second",
+      "-59 second",
+      "-1 minute",
+      "-2 minute",
+      "-3 minute",
+      "-4 minute",
+      "-5 minute",
+    ]);
+  });
+
+  it("fires once more when the target moves past the limit, then stops", () => {
+    expect(watch(-(DAY - MINUTE), 3 * DAY, DAY)).toEqual(["-1 day"]);
+  });
+});
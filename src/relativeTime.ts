@@ -0,0 +1,161 @@
+// Picking the unit and value for "5 minutes ago" / "in 3 hours".
+
+export type RelativeUnit = "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/**
+ * How many of each unit to show before moving up to the next one, e.g.
+ * minutes: 45 shows "44 minutes ago" and then "1 hour ago".
+ */
+export interface RelativeThresholds {
+  seconds: number;
+  minutes: number;
+  hours: number;
+  days: number;
+  weeks: number;
+  months: number;
+}
+
+export const DEFAULT_RELATIVE_THRESHOLDS: RelativeThresholds = {
+  seconds: 60,
+  minutes: 60,
+  hours: 24,
+  days: 7,
+  weeks: 4,
+  months: 12,
+};
+
+// months and years are averages; close enough for "3 months ago"
+const UNIT_MS: Record<RelativeUnit, number> = {
+  second: 1000,
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+  month: 2_629_746_000,
+  year: 31_556_952_000,
+};
+
+const LADDER: [RelativeUnit, keyof RelativeThresholds][] = [
+  ["second", "seconds"],
+  ["minute", "minutes"],
+  ["hour", "hours"],
+  ["day", "days"],
+  ["week", "weeks"],
+  ["month", "months"],
+];
+
+export interface RelativeValue {
+  value: number; // negative in the past, truncated towards zero
+  unit: RelativeUnit;
+}
+
+/**
+ * Value and unit for a target `diffMs` away from now (negative = past). Each
+ * unit is used while fewer than its threshold have passed; a threshold of 0
+ * skips the unit entirely, so days: 0 goes from hours straight to weeks.
+ */
+export function relativeValue(
+  diffMs: number,
+  thresholds: Partial<RelativeThresholds> = DEFAULT_RELATIVE_THRESHOLDS
+): RelativeValue {
+  const abs = Math.abs(diffMs);
+  for (const [unit, key] of LADDER) {
+    const limit = thresholds[key] ?? DEFAULT_RELATIVE_THRESHOLDS[key];
+    if (abs < limit * UNIT_MS[unit]) return { value: truncate(diffMs, unit), unit };
+  }
+  return { value: truncate(diffMs, "year"), unit: "year" };
+}
+
+// Whole units towards zero. Past a skipped unit (threshold 0) that can give 0
+// of a larger unit, which shows as 1 rather than "0 weeks ago"; no "-0" either.
+function truncate(diffMs: number, unit: RelativeUnit): number {
+  const value = Math.trunc(diffMs / UNIT_MS[unit]) || 0;
+  return value === 0 && unit !== "second" && diffMs !== 0 ? Math.sign(diffMs) : value;
+}
+
+/**
+ * Milliseconds until a target `diffMs` away (negative = past) crosses
+ * `limitMs` in either direction, Infinity when it never will: a future
+ * target only gets closer, a past one only further away.
+ */
+export function msUntilCrossing(diffMs: number, limitMs: number): number {
+  const abs = Math.abs(diffMs);
+  if (diffMs > 0 && abs >= limitMs) return abs - limitMs + 1;
+  if (diffMs <= 0 && abs < limitMs) return limitMs - abs;
+  return Infinity;
+}
+
+/**
+ * Milliseconds until the label for a target `diffMs` away next changes,
+ * measured from the target rather than from clock rollovers: "in 1 hour"
+ * turns into "in 59 minutes" exactly one hour before it.
+ */
+export function msUntilRelativeChange(
+  diffMs: number,
+  thresholds: Partial<RelativeThresholds> = DEFAULT_RELATIVE_THRESHOLDS
+): number {
+  const { unit } = relativeValue(diffMs, thresholds);
+  const size = UNIT_MS[unit];
+  // the shown value ticks over at each whole unit away from the target
+  const abs = Math.abs(diffMs);
+  let next = diffMs > 0 ? (abs % size) + 1 : size - (abs % size);
+  // moving to another unit happens at the thresholds
+  for (const [ladderUnit, key] of LADDER) {
+    const limit = thresholds[key] ?? DEFAULT_RELATIVE_THRESHOLDS[key];
+    next = Math.min(next, msUntilCrossing(diffMs, limit * UNIT_MS[ladderUnit]));
+  }
+  return next;
+}
+
+// longest delay setTimeout takes, about 24.8 days
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+/**
+ * Calls `onChange` every time the label for a target at `targetMs` changes,
+ * reading the time from `now`, and when it crosses `limitMs` away (the switch
+ * to an absolute date). Each firing schedules the next one; returns a function
+ * that stops it.
+ */
+export function watchRelative(
+  targetMs: number,
+  now: () => number,
+  onChange: () => void,
+  { thresholds = DEFAULT_RELATIVE_THRESHOLDS, limitMs = Infinity }: {
+    thresholds?: Partial<RelativeThresholds>;
+    limitMs?: number;
+  } = {}
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const arm = () => {
+    const diff = targetMs - now();
+    // beyond the limit the label is a date: only coming back within it matters
+    const delay =
+      Math.abs(diff) >= limitMs
+        ? msUntilCrossing(diff, limitMs)
+        : Math.min(msUntilRelativeChange(diff, thresholds), msUntilCrossing(diff, limitMs));
+    if (!Number.isFinite(delay)) return;
+    timer = setTimeout(() => {
+      onChange();
+      arm();
+    }, Math.min(delay, MAX_TIMEOUT_MS));
+  };
+  arm();
+  return () => clearTimeout(timer);
+}
+
+const relativeFormatters = new Map<string, Intl.RelativeTimeFormat>();
+
+/** "5 minutes ago", "in 3 hours", or with numeric "auto": "yesterday", "now". */
+export function formatRelative(
+  { value, unit }: RelativeValue,
+  locale: string | undefined,
+  options: { numeric?: "always" | "auto"; style?: "long" | "short" | "narrow" } = {}
+): string {
+  const key = `${locale || ""}|${options.numeric || "auto"}|${options.style || "long"}`;
+  let fmt = relativeFormatters.get(key);
+  if (!fmt) {
+    fmt = new Intl.RelativeTimeFormat(locale, { numeric: options.numeric || "auto", style: options.style || "long" });
+    relativeFormatters.set(key, fmt);
+  }
+  return fmt.format(value, unit);
+}
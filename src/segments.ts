@@ -0,0 +1,141 @@
+// Segment display glyphs and geometry. Seven segments cover digits, fourteen
+// (the seven with the middle bar split, plus a centre column and four
+// diagonals) cover letters for AM/PM, weekday and month names:
+//
+//    ---a---
+//   |\  |  /|
+//   f h i j b
+//   |  \|/  |
+//    -g1 g2-
+//   |  /|\  |
+//   e k l m c
+//   |/  |  \|
+//    ---d---
+//
+// Seven-segment glyphs use a single middle bar "g".
+import { digitValue } from "./format/digits";
+
+export type SegmentKind = 7 | 14;
+
+export const SEVEN_SEGMENTS = ["a", "b", "c", "d", "e", "f", "g"] as const;
+export const FOURTEEN_SEGMENTS = ["a", "b", "c", "d", "e", "f", "g1", "g2", "h", "i", "j", "k", "l", "m"] as const;
+
+export type Segment = (typeof SEVEN_SEGMENTS)[number] | (typeof FOURTEEN_SEGMENTS)[number];
+
+const DIGIT_SEGMENTS = ["abcdef", "bc", "abdeg", "abcdg", "bcfg", "acdfg", "acdefg", "abc", "abcdefg", "abcdfg"];
+
+// space separated so the two-letter names (g1, g2) stay readable
+const LETTER_SEGMENTS: Record<string, string> = {
+  A: "a b c e f g1 g2",
+  B: "a b c d g2 i l",
+  C: "a d e f",
+  D: "a b c d i l",
+  E: "a d e f g1",
+  F: "a e f g1",
+  G: "a c d e f g2",
+  H: "b c e f g1 g2",
+  I: "a d i l",
+  J: "b c d e",
+  K: "e f g1 j m",
+  L: "d e f",
+  M: "b c e f h j",
+  N: "b c e f h m",
+  O: "a b c d e f",
+  P: "a b e f g1 g2",
+  Q: "a b c d e f m",
+  R: "a b e f g1 g2 m",
+  S: "a c d f g1 g2",
+  T: "a i l",
+  U: "b c d e f",
+  V: "e f j k",
+  W: "b c e f k m",
+  X: "h j k m",
+  Y: "h j l",
+  Z: "a d j k",
+  "-": "g1 g2",
+  "/": "j k",
+  "'": "i",
+};
+
+/**
+ * Lit segments for `char` on a `kind` segment display. Letters fold to
+ * upper case without accents (é -> E); anything with no glyph is blank.
+ */
+export function segmentsFor(char: string, kind: SegmentKind): Segment[] {
+  const digit = digitValue(char);
+  if (digit !== null) {
+    const lit = Array.from(DIGIT_SEGMENTS[digit]) as Segment[];
+    return kind === 7 ? lit : lit.flatMap((s): Segment[] => (s === "g" ? ["g1", "g2"] : [s]));
+  }
+  if (kind === 7) return char === "-" ? ["g"] : [];
+  const folded = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toUpperCase();
+  return (LETTER_SEGMENTS[folded]?.split(" ") ?? []) as Segment[];
+}
+
+/** Seven segments when every character is a digit, fourteen as soon as one isn't. */
+export function segmentKindFor(chars: string[]): SegmentKind {
+  return chars.every((c) => digitValue(c) !== null) ? 7 : 14;
+}
+
+// glyph box in SVG units; the digit's height is scaled to the font size
+export const SEGMENT_WIDTH = 60;
+export const SEGMENT_HEIGHT = 100;
+
+type Point = [number, number];
+
+const points = (pts: Point[]) => pts.map(([x, y]) => `${x.toFixed(2)},${y.toFixed(2)}`).join(" ");
+
+// bar with pointed ends along a horizontal or vertical line
+function bar(x1: number, y1: number, x2: number, y2: number, t: number): string {
+  const h = t / 2;
+  if (y1 === y2) {
+    return points([[x1, y1], [x1 + h, y1 - h], [x2 - h, y1 - h], [x2, y1], [x2 - h, y1 + h], [x1 + h, y1 + h]]);
+  }
+  return points([[x1, y1], [x1 + h, y1 + h], [x1 + h, y2 - h], [x1, y2], [x1 - h, y2 - h], [x1 - h, y1 + h]]);
+}
+
+// slanted bar from an outer corner of a quadrant to the centre, `w` wide
+function diagonal(outer: Point, inner: Point, w: number): string {
+  const dir = Math.sign(inner[0] - outer[0]);
+  return points([outer, [outer[0] + dir * w, outer[1]], inner, [inner[0] - dir * w, inner[1]]]);
+}
+
+/** SVG polygon points for every segment of a `kind` display with bars `thickness` units wide. */
+export function segmentPolygons(kind: SegmentKind, thickness: number): Partial<Record<Segment, string>> {
+  const t = Math.min(Math.max(thickness, 2), 20);
+  const gap = Math.max(1, t * 0.12);
+  const left = t / 2;
+  const right = SEGMENT_WIDTH - t / 2;
+  const top = t / 2;
+  const mid = SEGMENT_HEIGHT / 2;
+  const bottom = SEGMENT_HEIGHT - t / 2;
+  const centre = SEGMENT_WIDTH / 2;
+  const shared = {
+    a: bar(left + gap, top, right - gap, top, t),
+    b: bar(right, top + gap, right, mid - gap, t),
+    c: bar(right, mid + gap, right, bottom - gap, t),
+    d: bar(left + gap, bottom, right - gap, bottom, t),
+    e: bar(left, mid + gap, left, bottom - gap, t),
+    f: bar(left, top + gap, left, mid - gap, t),
+  };
+  if (kind === 7) return { ...shared, g: bar(left + gap, mid, right - gap, mid, t) };
+  // diagonals fill the four quadrants between the bars
+  const qLeft = left + t / 2 + gap;
+  const qRight = right - t / 2 - gap;
+  const qTop = top + t / 2 + gap;
+  const qBottom = bottom - t / 2 - gap;
+  const inLeft = centre - t / 2 - gap;
+  const inRight = centre + t / 2 + gap;
+  const w = Math.min(t * 0.7, (inLeft - qLeft) / 2);
+  return {
+    ...shared,
+    g1: bar(left + gap, mid, centre - gap, mid, t),
+    g2: bar(centre + gap, mid, right - gap, mid, t),
+    i: bar(centre, top + gap, centre, mid - gap, t),
+    l: bar(centre, mid + gap, centre, bottom - gap, t),
+    h: diagonal([qLeft, qTop], [inLeft, mid - t / 2 - gap], w),
+    j: diagonal([qRight, qTop], [inRight, mid - t / 2 - gap], w),
+    k: diagonal([qLeft, qBottom], [inLeft, mid + t / 2 + gap], w),
+    m: diagonal([qRight, qBottom], [inRight, mid + t / 2 + gap], w),
+  };
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clockNow, subscribeClock, ClockTick } from "./clock";
+import {
+  createOffsetEstimator,
+  getServerTimeStatus,
+  startServerTimeSync,
+  ServerTimeConnection,
+} from "./serverTime";
+
+// A connection that hands the test the event callback instead of a socket
+function fakeConnection() {
+  const subscriptions: (string | undefined)[] = [];
+  const unsubscribe = vi.fn(async () => {});
+  let deliver: ((event: { time_fired?: string }) => void) | null = null;
+  const connection: ServerTimeConnection = {
+    async subscribeEvents<T>(callback: (event: T) => void, eventType?: string) {
+      subscriptions.push(eventType);
+      deliver = callback as (event: { time_fired?: string }) => void;
+      return unsubscribe;
+    },
+  };
+  // an event fired `offsetMs` ahead of this device, arriving now
+  const fire = (offsetMs: number) => deliver?.({ time_fired: new Date(Date.now() + offsetMs).toISOString() });
+  return { connection, subscriptions, unsubscribe, fire };
+}
+
+describe("createOffsetEstimator", () => {
+  it("keeps the largest sample, as latency only ever shrinks one", () => {
+    const estimator = createOffsetEstimator();
+    expect(estimator.add(10_500, 10_000)).toBe(500);
+    expect(estimator.add(20_520, 20_000)).toBe(520);
+    expect(estimator.add(30_480, 30_000)).toBe(520);
+    expect(estimator.status()).toEqual({ offsetMs: 520, samples: 3, lastSampleAt: 30_000 });
+  });
+
+  it("ages samples out after ten minutes", () => {
+    const estimator = createOffsetEstimator();
+    estimator.add(5_000, 0);
+    expect(estimator.add(600_400, 600_000)).toBe(5_000);
+    expect(estimator.add(660_400, 660_000)).toBe(400);
+    expect(estimator.status().samples).toBe(2);
+  });
+});
+
+describe("startServerTimeSync", () => {
+  let release: (() => void) | null = null;
+  let unsubscribeClock: (() => void) | null = null;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: Date.UTC(2025, 9, 20, 10, 30) });
+  });
+
+  afterEach(() => {
+    unsubscribeClock?.();
+    release?.();
+    unsubscribeClock = release = null;
+    vi.useRealTimers();
+  });
+
+  it("listens to state_changed and applies the offset to the home-assistant source", () => {
+    const fake = fakeConnection();
+    release = startServerTimeSync(fake.connection);
+    fake.fire(1_000);
+    expect(fake.subscriptions).toEqual(["state_changed"]);
+    expect(clockNow("home-assistant").getTime() - Date.now()).toBe(1_000);
+    expect(clockNow("browser").getTime()).toBe(Date.now());
+    expect(getServerTimeStatus()).toMatchObject({ offsetMs: 1_000, samples: 1 });
+  });
+
+  it("resyncs subscribers only when the offset moves by more than measurement noise", () => {
+    const fake = fakeConnection();
+    const ticks: ClockTick[] = [];
+    unsubscribeClock = subscribeClock("day", (tick) => ticks.push(tick), "UTC", "home-assistant");
+    release = startServerTimeSync(fake.connection);
+    fake.fire(1_000);
+    expect(ticks).toHaveLength(1);
+    expect(ticks[0].resync).toBe(true);
+    // 100 ms more is below OFFSET_RESYNC_MS: the offset is taken, nobody jumps
+    fake.fire(1_100);
+    expect(clockNow("home-assistant").getTime() - Date.now()).toBe(1_100);
+    expect(ticks).toHaveLength(1);
+    fake.fire(1_600);
+    expect(ticks).toHaveLength(2);
+  });
+
+  it("stops listening once a batch of samples is in and measures again later", async () => {
+    const fake = fakeConnection();
+    release = startServerTimeSync(fake.connection);
+    for (let i = 0; i < 20; i++) fake.fire(1_000 - i);
+    await vi.waitFor(() => expect(fake.unsubscribe).toHaveBeenCalledTimes(1));
+    expect(getServerTimeStatus().offsetMs).toBe(1_000);
+    vi.advanceTimersByTime(30 * 60_000);
+    expect(fake.subscriptions).toEqual(["state_changed", "state_changed"]);
+  });
+
+  it("unsubscribes and falls back to the device clock when the last user releases", async () => {
+    const fake = fakeConnection();
+    release = startServerTimeSync(fake.connection);
+    const second = startServerTimeSync(fake.connection);
+    fake.fire(2_000);
+    second();
+    expect(fake.unsubscribe).not.toHaveBeenCalled();
+    release();
+    release = null;
+    await vi.waitFor(() => expect(fake.unsubscribe).toHaveBeenCalledTimes(1));
+    expect(clockNow("home-assistant").getTime()).toBe(Date.now());
+    expect(getServerTimeStatus().offsetMs).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+// Measures how far the Home Assistant server clock is from this device, for
+// components using the "home-assistant" time source. Every state_changed
+// event carries the server time it was fired at; comparing that with the
+// time it arrived gives an offset sample. Delivery latency only ever makes a
+// sample smaller than the true offset, so the largest recent sample wins.
+// On a busy install those events are a firehose, so listening stops once a
+// batch of samples is in and resumes for a fresh batch now and then.
+import { setServerOffset } from "./clock";
+
+// The slice of home-assistant-js-websocket's Connection used here, small
+// enough for a fake connection to drive it.
+export interface ServerTimeConnection {
+  subscribeEvents<T>(
+    callback: (event: T) => void,
+    eventType?: string
+  ): Promise<() => Promise<void>>;
+}
+
+interface FiredEvent {
+  time_fired?: string;
+}
+
+export interface ServerTimeStatus {
+  offsetMs: number | null; // server minus device, null until the first sample
+  samples: number; // samples in the current window
+  lastSampleAt: number; // device time of the latest sample, 0 when none
+}
+
+// old samples age out so a device clock step is picked up within this window
+const SAMPLE_WINDOW_MS = 10 * 60_000;
+const MAX_SAMPLES = 50;
+// samples per batch, and how long to wait before measuring again to follow drift
+const SETTLE_SAMPLES = 20;
+const RESAMPLE_INTERVAL_MS = 30 * 60_000;
+
+export interface OffsetEstimator {
+  /** Records a server timestamp received at device time `receivedAt`, returns the new estimate. */
+  add(serverTime: number, receivedAt: number): number;
+  status(): ServerTimeStatus;
+}
+
+export function createOffsetEstimator(): OffsetEstimator {
+  let samples: { offset: number; at: number }[] = [];
+  let estimate: number | null = null;
+  return {
+    add(serverTime, receivedAt) {
+      samples.push({ offset: serverTime - receivedAt, at: receivedAt });
+      samples = samples
+        .filter((s) => receivedAt - s.at <= SAMPLE_WINDOW_MS && s.at <= receivedAt)
+        .slice(-MAX_SAMPLES);
+      estimate = Math.max(...samples.map((s) => s.offset));
+      return estimate;
+    },
+    status() {
+      return {
+        offsetMs: estimate,
+        samples: samples.length,
+        lastSampleAt: samples.length ? samples[samples.length - 1].at : 0,
+      };
+    },
+  };
+}
+
+type StatusListener = (status: ServerTimeStatus) => void;
+
+const IDLE_STATUS: ServerTimeStatus = { offsetMs: null, samples: 0, lastSampleAt: 0 };
+
+let activeConnection: ServerTimeConnection | null = null;
+let activeUsers = 0;
+let unsubscribeEvents: Promise<(() => Promise<void>) | undefined> | null = null;
+let resampleTimer: ReturnType<typeof setTimeout> | null = null;
+let estimator = createOffsetEstimator();
+let status: ServerTimeStatus = IDLE_STATUS;
+const statusListeners = new Set<StatusListener>();
+
+function publish(next: ServerTimeStatus) {
+  status = next;
+  statusListeners.forEach((listener) => listener(status));
+}
+
+function listen(connection: ServerTimeConnection) {
+  let batch = 0;
+  unsubscribeEvents = connection
+    .subscribeEvents<FiredEvent>((event) => {
+      const receivedAt = Date.now();
+      const fired = event.time_fired ? Date.parse(event.time_fired) : NaN;
+      if (Number.isNaN(fired)) return;
+      setServerOffset(estimator.add(fired, receivedAt));
+      publish(estimator.status());
+      if (++batch === SETTLE_SAMPLES) settle(connection);
+    }, "state_changed")
+    .catch(() => {
+      // not connected or not allowed, keep using the device clock
+      return undefined;
+    });
+}
+
+function stopListening() {
+  const pending = unsubscribeEvents;
+  unsubscribeEvents = null;
+  pending
+    ?.then((unsubscribe) => unsubscribe?.())
+    .catch(() => {
+      // connection already closed, nothing to clean up
+    });
+}
+
+// the estimate holds between batches; come back later for a fresh one
+function settle(connection: ServerTimeConnection) {
+  stopListening();
+  resampleTimer = setTimeout(() => {
+    resampleTimer = null;
+    if (activeConnection === connection) listen(connection);
+  }, RESAMPLE_INTERVAL_MS);
+}
+
+function connect(connection: ServerTimeConnection) {
+  activeConnection = connection;
+  estimator = createOffsetEstimator();
+  listen(connection);
+}
+
+function disconnect() {
+  if (resampleTimer) clearTimeout(resampleTimer);
+  resampleTimer = null;
+  stopListening();
+  activeConnection = null;
+  activeUsers = 0;
+  setServerOffset(0);
+  publish(IDLE_STATUS);
+}
+
+/**
+ * Starts measuring the server offset over `connection` (shared by every
+ * caller) and returns a release function. The offset is applied to the
+ * shared clock until the last caller releases.
+ */
+export function startServerTimeSync(connection: ServerTimeConnection): () => void {
+  if (activeConnection && activeConnection !== connection) disconnect();
+  if (!activeConnection) connect(connection);
+  activeUsers++;
+  let released = false;
+  return () => {
+    // callers of a replaced connection were already let go
+    if (released || activeConnection !== connection) return;
+    released = true;
+    activeUsers--;
+    if (activeUsers === 0) disconnect();
+  };
+}
+
+export function getServerTimeStatus(): ServerTimeStatus {
+  return status;
+}
+
+/** Notifies `listener` whenever a new sample changes the measured offset. */
+export function subscribeServerTimeStatus(listener: StatusListener): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { daylightLeft, sunTimes } from "./sun";
+
+const HOUR = 3_600_000;
+const TROMSO = { latitude: 69.65, longitude: 18.96, timeZone: "Europe/Oslo" };
+
+function left(iso: string, latitude: number, longitude: number, timeZone: string): number {
+  const now = new Date(iso);
+  return daylightLeft(sunTimes(now, latitude, longitude, timeZone), now, timeZone);
+}
+
+describe("daylightLeft", () => {
+  it("counts down to sunset while the sun is up, 0 after it", () => {
+    const now = new Date("2025-10-20T10:00:00Z");
+    const times = sunTimes(now, 51.5, -0.12, "Europe/London");
+    expect(daylightLeft(times, now, "Europe/London")).toBe(times.sunset!.getTime() - now.getTime());
+    expect(left("2025-10-20T20:00:00Z", 51.5, -0.12, "Europe/London")).toBe(0);
+  });
+
+  it("runs until midnight during polar day", () => {
+    // noon in Tromsø at midsummer, the sun never sets
+    expect(left("2025-06-21T10:00:00Z", TROMSO.latitude, TROMSO.longitude, TROMSO.timeZone)).toBe(12 * HOUR);
+  });
+
+  it("stays at 0 through polar night", () => {
+    expect(left("2025-12-21T10:00:00Z", TROMSO.latitude, TROMSO.longitude, TROMSO.timeZone)).toBe(0);
+  });
+});
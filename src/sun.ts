@@ -0,0 +1,153 @@
+// Sun position and rise / set / twilight times, computed locally from
+// latitude and longitude (the formulas SunCalc uses, accurate to about a
+// minute), so no sun.sun entity is needed and any location works.
+import { getZonedParts, zonedTimeToDate } from "./timezone";
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86_400_000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+
+// sun altitude (degrees) at each event; -0.833 allows for refraction and the sun's radius
+export const SUN_ANGLES = {
+  sunrise: -0.833,
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+} as const;
+
+export type SunAngle = keyof typeof SUN_ANGLES;
+
+export interface SunPosition {
+  elevation: number; // degrees above the horizon
+  azimuth: number; // degrees clockwise from north
+}
+
+export interface SunTimes {
+  solarNoon: Date;
+  // null when the sun doesn't cross that altitude on the day (polar day / night)
+  sunrise: Date | null;
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  nauticalDawn: Date | null;
+  nauticalDusk: Date | null;
+  astronomicalDawn: Date | null;
+  astronomicalDusk: Date | null;
+  dayLength: number; // ms between sunrise and sunset; 0 or 24 h when the sun never sets / rises
+}
+
+/** Days since the J2000 epoch, the time scale the formulas here and in moon.ts use. */
+export function toDays(date: Date): number {
+  return date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+function fromJulian(j: number): Date {
+  return new Date((j + 0.5 - J1970) * DAY_MS);
+}
+
+function solarMeanAnomaly(d: number): number {
+  return RAD * (357.5291 + 0.98560028 * d);
+}
+
+function eclipticLongitude(m: number): number {
+  const center = RAD * (1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m));
+  const perihelion = RAD * 102.9372;
+  return m + center + perihelion + Math.PI;
+}
+
+function declination(l: number): number {
+  return Math.asin(Math.sin(l) * Math.sin(OBLIQUITY));
+}
+
+function rightAscension(l: number): number {
+  return Math.atan2(Math.sin(l) * Math.cos(OBLIQUITY), Math.cos(l));
+}
+
+/** The sun's right ascension and declination (radians) `d` days after J2000. */
+export function sunEquatorial(d: number): { ra: number; dec: number } {
+  const l = eclipticLongitude(solarMeanAnomaly(d));
+  return { ra: rightAscension(l), dec: declination(l) };
+}
+
+/** Where the sun is in the sky at `date` seen from `latitude` / `longitude`. */
+export function sunPosition(date: Date, latitude: number, longitude: number): SunPosition {
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+  const d = toDays(date);
+  const { ra, dec } = sunEquatorial(d);
+  const hourAngle = RAD * (280.16 + 360.9856235 * d) - lw - ra;
+  const elevation = Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle));
+  const azimuth = Math.atan2(Math.sin(hourAngle), Math.cos(hourAngle) * Math.sin(phi) - Math.tan(dec) * Math.cos(phi));
+  // atan2 measures from south; turn into a compass bearing
+  return { elevation: elevation / RAD, azimuth: (azimuth / RAD + 180) % 360 };
+}
+
+/**
+ * Sun events on the calendar day of `date` in `timeZone`, at `latitude` /
+ * `longitude`. The timezone only picks the day; the returned Dates are
+ * absolute and can be formatted in any zone.
+ */
+export function sunTimes(date: Date, latitude: number, longitude: number, timeZone: string | undefined): SunTimes {
+  const day = getZonedParts(date, timeZone);
+  // the solar transit nearest local noon belongs to this day
+  const noon = zonedTimeToDate({ year: day.year, month: day.month, day: day.day, hour: 12 }, timeZone);
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+  const n = Math.round(toDays(noon) - J0 - lw / (2 * Math.PI));
+  const ds = J0 + lw / (2 * Math.PI) + n;
+  const m = solarMeanAnomaly(ds);
+  const l = eclipticLongitude(m);
+  const dec = declination(l);
+  const transit = (approx: number) => J2000 + approx + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * l);
+  const jNoon = transit(ds);
+
+  const pair = (angle: SunAngle): [Date | null, Date | null] => {
+    const cosH =
+      (Math.sin(RAD * SUN_ANGLES[angle]) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+    if (!(cosH >= -1 && cosH <= 1)) return [null, null];
+    const jSet = transit(J0 + (Math.acos(cosH) + lw) / (2 * Math.PI) + n);
+    return [fromJulian(jNoon - (jSet - jNoon)), fromJulian(jSet)];
+  };
+
+  const [sunrise, sunset] = pair("sunrise");
+  const [civilDawn, civilDusk] = pair("civil");
+  const [nauticalDawn, nauticalDusk] = pair("nautical");
+  const [astronomicalDawn, astronomicalDusk] = pair("astronomical");
+  const solarNoon = fromJulian(jNoon);
+  const dayLength =
+    sunrise && sunset
+      ? sunset.getTime() - sunrise.getTime()
+      : sunPosition(solarNoon, latitude, longitude).elevation > SUN_ANGLES.sunrise
+        ? DAY_MS
+        : 0;
+  return {
+    solarNoon,
+    sunrise,
+    sunset,
+    civilDawn,
+    civilDusk,
+    nauticalDawn,
+    nauticalDusk,
+    astronomicalDawn,
+    astronomicalDusk,
+    dayLength,
+  };
+}
+
+/**
+ * Daylight left at `now` on the day `times` describes: until sunset while the
+ * sun is up, until the end of the day in `timeZone` during polar day, and 0
+ * at night or through polar night.
+ */
+export function daylightLeft(times: SunTimes, now: Date, timeZone: string | undefined): number {
+  if (times.sunrise && times.sunset) {
+    return now >= times.sunrise && now < times.sunset ? times.sunset.getTime() - now.getTime() : 0;
+  }
+  if (times.dayLength === 0) return 0;
+  const today = getZonedParts(now, timeZone);
+  const dayEnd = zonedTimeToDate({ year: today.year, month: today.month, day: today.day + 1 }, timeZone);
+  return Math.max(0, dayEnd.getTime() - now.getTime());
+}
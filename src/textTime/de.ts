@@ -0,0 +1,62 @@
+import { TextTimeLanguage } from "./types";
+
+const HOURS = ["zwölf", "eins", "zwei", "drei", "vier", "fünf", "sechs", "sieben", "acht", "neun", "zehn", "elf"];
+const NUMBERS = [
+  "",
+  "eins",
+  "zwei",
+  "drei",
+  "vier",
+  "fünf",
+  "sechs",
+  "sieben",
+  "acht",
+  "neun",
+  "zehn",
+  "elf",
+  "zwölf",
+  "dreizehn",
+  "vierzehn",
+  "fünfzehn",
+  "sechzehn",
+  "siebzehn",
+  "achtzehn",
+  "neunzehn",
+  "zwanzig",
+];
+
+// "fünf", "eine Minute", "drei Minuten"; never more than twenty here
+function minutes(n: number): string {
+  if (n % 5 === 0) return NUMBERS[n];
+  return n === 1 ? "eine Minute" : `${NUMBERS[n]} Minuten`;
+}
+
+// half hours count towards the next hour: "fünf nach halb vier" is 3:35
+export const german: TextTimeLanguage = {
+  label: "Deutsch",
+  time(hour, minute) {
+    const h = HOURS[hour % 12];
+    const next = HOURS[(hour + 1) % 12];
+    if (minute === 0) return `${hour % 12 === 1 ? "ein" : h} Uhr`;
+    if (minute === 15) return `Viertel nach ${h}`;
+    if (minute === 30) return `halb ${next}`;
+    if (minute === 45) return `Viertel vor ${next}`;
+    if (minute <= 20) return `${minutes(minute)} nach ${h}`;
+    if (minute < 30) return `${minutes(30 - minute)} vor halb ${next}`;
+    if (minute < 40) return `${minutes(minute - 30)} nach halb ${next}`;
+    return `${minutes(60 - minute)} vor ${next}`;
+  },
+  periods: {
+    night: "Nacht",
+    "early-morning": "früher Morgen",
+    morning: "Morgen",
+    "late-morning": "später Vormittag",
+    noon: "Mittag",
+    "early-afternoon": "früher Nachmittag",
+    afternoon: "Nachmittag",
+    "late-afternoon": "später Nachmittag",
+    evening: "Abend",
+    "late-evening": "später Abend",
+  },
+  sentence: (text) => `es ist ${text}`,
+};
@@ -0,0 +1,62 @@
+import { TextTimeLanguage } from "./types";
+
+const HOURS = ["twelve", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten", "eleven"];
+const NUMBERS = [
+  "",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+  "twenty",
+];
+
+function number(n: number): string {
+  return n <= 20 ? NUMBERS[n] : `twenty-${NUMBERS[n - 20]}`;
+}
+
+// "five", "one minute", "twenty-two minutes"
+function minutes(n: number): string {
+  if (n % 5 === 0) return number(n);
+  return n === 1 ? "one minute" : `${number(n)} minutes`;
+}
+
+export const english: TextTimeLanguage = {
+  label: "English",
+  time(hour, minute) {
+    const h = HOURS[hour % 12];
+    const next = HOURS[(hour + 1) % 12];
+    if (minute === 0) return hour === 0 ? "midnight" : hour === 12 ? "noon" : `${h} o'clock`;
+    if (minute === 15) return `quarter past ${h}`;
+    if (minute === 30) return `half past ${h}`;
+    if (minute === 45) return `quarter to ${next}`;
+    return minute < 30 ? `${minutes(minute)} past ${h}` : `${minutes(60 - minute)} to ${next}`;
+  },
+  periods: {
+    night: "night",
+    "early-morning": "early morning",
+    morning: "morning",
+    "late-morning": "late morning",
+    noon: "midday",
+    "early-afternoon": "early afternoon",
+    afternoon: "afternoon",
+    "late-afternoon": "late afternoon",
+    evening: "evening",
+    "late-evening": "late evening",
+  },
+  sentence: (text) => `it's ${text}`,
+};
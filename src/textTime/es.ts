@@ -0,0 +1,68 @@
+import { TextTimeLanguage } from "./types";
+
+const HOURS = ["doce", "una", "dos", "tres", "cuatro", "cinco", "seis", "siete", "ocho", "nueve", "diez", "once"];
+const NUMBERS = [
+  "",
+  "una", // "y una", "menos una", agreeing with "la hora" like "veintiuna"
+  "dos",
+  "tres",
+  "cuatro",
+  "cinco",
+  "seis",
+  "siete",
+  "ocho",
+  "nueve",
+  "diez",
+  "once",
+  "doce",
+  "trece",
+  "catorce",
+  "quince",
+  "dieciséis",
+  "diecisiete",
+  "dieciocho",
+  "diecinueve",
+  "veinte",
+  "veintiuna",
+  "veintidós",
+  "veintitrés",
+  "veinticuatro",
+  "veinticinco",
+  "veintiséis",
+  "veintisiete",
+  "veintiocho",
+  "veintinueve",
+];
+
+// "la una", "las tres"
+function hourName(hour: number): string {
+  const h = hour % 12;
+  return h === 1 ? "la una" : `las ${HOURS[h]}`;
+}
+
+export const spanish: TextTimeLanguage = {
+  label: "Español",
+  time(hour, minute) {
+    const h = hourName(hour);
+    const next = hourName(hour + 1);
+    if (minute === 0) return `${h} en punto`;
+    if (minute === 15) return `${h} y cuarto`;
+    if (minute === 30) return `${h} y media`;
+    if (minute === 45) return `${next} menos cuarto`;
+    return minute < 30 ? `${h} y ${NUMBERS[minute]}` : `${next} menos ${NUMBERS[60 - minute]}`;
+  },
+  periods: {
+    night: "de madrugada",
+    "early-morning": "muy temprano",
+    morning: "por la mañana",
+    "late-morning": "media mañana",
+    noon: "mediodía",
+    "early-afternoon": "primera hora de la tarde",
+    afternoon: "por la tarde",
+    "late-afternoon": "última hora de la tarde",
+    evening: "por la noche",
+    "late-evening": "bien entrada la noche",
+  },
+  // "es la una", "son las tres"
+  sentence: (text, fuzzy) => `${fuzzy || text.startsWith("la ") ? "es" : "son"} ${text}`,
+};
@@ -0,0 +1,67 @@
+import { TextTimeLanguage } from "./types";
+
+const HOURS = ["douze", "une", "deux", "trois", "quatre", "cinq", "six", "sept", "huit", "neuf", "dix", "onze"];
+// minutes are feminine: "trois heures une", "vingt et une"
+const NUMBERS = [
+  "",
+  "une",
+  "deux",
+  "trois",
+  "quatre",
+  "cinq",
+  "six",
+  "sept",
+  "huit",
+  "neuf",
+  "dix",
+  "onze",
+  "douze",
+  "treize",
+  "quatorze",
+  "quinze",
+  "seize",
+  "dix-sept",
+  "dix-huit",
+  "dix-neuf",
+  "vingt",
+];
+
+function number(n: number): string {
+  if (n <= 20) return NUMBERS[n];
+  return n === 21 ? "vingt et une" : `vingt-${NUMBERS[n - 20]}`;
+}
+
+// 0 and 12 are "minuit" / "midi", the rest count 1-11 on both halves of the day
+function hourName(hour: number): string {
+  const h = hour % 24;
+  if (h === 0) return "minuit";
+  if (h === 12) return "midi";
+  return `${HOURS[h % 12]} ${h % 12 === 1 ? "heure" : "heures"}`;
+}
+
+export const french: TextTimeLanguage = {
+  label: "Français",
+  time(hour, minute) {
+    const h = hourName(hour);
+    const next = hourName(hour + 1);
+    if (minute === 0) return h;
+    if (minute === 15) return `${h} et quart`;
+    // midi and minuit are masculine
+    if (minute === 30) return `${h} et ${hour % 12 === 0 ? "demi" : "demie"}`;
+    if (minute === 45) return `${next} moins le quart`;
+    return minute < 30 ? `${h} ${number(minute)}` : `${next} moins ${number(60 - minute)}`;
+  },
+  periods: {
+    night: "la nuit",
+    "early-morning": "le petit matin",
+    morning: "le matin",
+    "late-morning": "la fin de matinée",
+    noon: "la mi-journée",
+    "early-afternoon": "le début d'après-midi",
+    afternoon: "l'après-midi",
+    "late-afternoon": "la fin d'après-midi",
+    evening: "le soir",
+    "late-evening": "la fin de soirée",
+  },
+  sentence: (text, fuzzy) => `${fuzzy ? "c'est" : "il est"} ${text}`,
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { dayPeriod, roundTime, timeInWords, TEXT_TIME_LANGUAGES, TextTimeLanguageKey } from ".";
+
+const LANGUAGE_KEYS = Object.keys(TEXT_TIME_LANGUAGES) as TextTimeLanguageKey[];
+
+// every minute of the day as [hour, minute]
+const MINUTES: [number, number][] = Array.from({ length: 24 * 60 }, (_, i) => [Math.floor(i / 60), i % 60]);
+
+// signed distance in minutes between two wall-clock times, wrapping at midnight
+function minutesBetween(from: [number, number], to: { hour: number; minute: number }): number {
+  const diff = (to.hour * 60 + to.minute - (from[0] * 60 + from[1]) + 1440) % 1440;
+  return diff > 720 ? diff - 1440 : diff;
+}
+
+describe("roundTime", () => {
+  it.each([
+    [5, 2],
+    [15, 7],
+  ])("rounds every minute to the nearest %i, at most %i minutes away", (step, maxDistance) => {
+    for (const [hour, minute] of MINUTES) {
+      const rounded = roundTime(hour, minute, step);
+      expect(rounded.minute % step).toBe(0);
+      expect(rounded.hour).toBeGreaterThanOrEqual(0);
+      expect(rounded.hour).toBeLessThan(24);
+      expect(Math.abs(minutesBetween([hour, minute], rounded))).toBeLessThanOrEqual(maxDistance);
+    }
+  });
+
+  it("carries 23:58 into 0:00 of the next day", () => {
+    expect(roundTime(23, 58, 5)).toEqual({ hour: 0, minute: 0 });
+    expect(roundTime(23, 53, 15)).toEqual({ hour: 0, minute: 0 });
+    expect(roundTime(10, 7, 15)).toEqual({ hour: 10, minute: 0 });
+    expect(roundTime(10, 8, 15)).toEqual({ hour: 10, minute: 15 });
+  });
+});
+
+describe.each(LANGUAGE_KEYS)("timeInWords (%s)", (key) => {
+  const language = TEXT_TIME_LANGUAGES[key];
+
+  it("tells every minute of the day", () => {
+    for (const [hour, minute] of MINUTES) {
+      const text = timeInWords(language, hour, minute);
+      expect(text, `${hour}:${minute}`).toMatch(/^\S+( \S+)*$/);
+      expect(text).not.toContain("undefined");
+    }
+  });
+
+  it("reads every minute of a half day differently", () => {
+    const seen = new Set<string>();
+    for (const [hour, minute] of MINUTES) if (hour >= 1 && hour < 12) seen.add(timeInWords(language, hour, minute));
+    expect(seen.size).toBe(11 * 60);
+  });
+
+  it.each(["five", "quarter"] as const)("rounds to the nearest step in %s mode", (rounding) => {
+    const step = rounding === "five" ? 5 : 15;
+    for (const [hour, minute] of MINUTES) {
+      const rounded = roundTime(hour, minute, step);
+      expect(timeInWords(language, hour, minute, { rounding })).toBe(language.time(rounded.hour, rounded.minute));
+    }
+  });
+
+  it("carries 23:58 over to midnight", () => {
+    expect(timeInWords(language, 23, 58, { rounding: "five" })).toBe(language.time(0, 0));
+    expect(timeInWords(language, 23, 58, { rounding: "quarter" })).toBe(language.time(0, 0));
+  });
+
+  it("names the part of the day in fuzzy mode", () => {
+    for (const [hour, minute] of MINUTES) {
+      const text = timeInWords(language, hour, minute, { rounding: "fuzzy" });
+      expect(text).toBe(language.periods[dayPeriod(hour)]);
+      expect(text.trim()).not.toBe("");
+    }
+  });
+
+  it("wraps the time in a sentence", () => {
+    for (const [hour, minute] of MINUTES) {
+      const text = timeInWords(language, hour, minute);
+      const sentence = timeInWords(language, hour, minute, { sentence: true });
+      expect(sentence).not.toBe(text);
+      expect(sentence.endsWith(text)).toBe(true);
+    }
+  });
+});
+
+describe("timeInWords wording", () => {
+  it.each([
+    ["en", 15, 35, "twenty-five to four"],
+    ["en", 0, 0, "midnight"],
+    ["de", 15, 35, "fünf nach halb vier"],
+    ["de", 12, 30, "halb eins"],
+    ["fr", 12, 30, "midi et demi"],
+    ["fr", 15, 30, "trois heures et demie"],
+    ["fr", 0, 59, "une heure moins une"],
+    ["es", 13, 1, "la una y una"],
+    ["es", 0, 59, "la una menos una"],
+    ["es", 13, 21, "la una y veintiuna"],
+    ["es", 14, 39, "las tres menos veintiuna"],
+    ["es", 3, 15, "las tres y cuarto"],
+    ["nl", 15, 35, "vijf over half vier"],
+  ] as const)("%s %i:%i is %s", (key, hour, minute, expected) => {
+    expect(timeInWords(TEXT_TIME_LANGUAGES[key], hour, minute)).toBe(expected);
+  });
+
+  it.each([
+    ["en", "it's midnight"],
+    ["de", "es ist zwölf Uhr"],
+    ["fr", "il est minuit"],
+    ["es", "son las doce en punto"],
+    ["nl", "het is twaalf uur"],
+  ] as const)("%s rounds 23:58 to %s", (key, expected) => {
+    expect(timeInWords(TEXT_TIME_LANGUAGES[key], 23, 58, { rounding: "five", sentence: true })).toBe(expected);
+  });
+});
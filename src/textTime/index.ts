@@ -0,0 +1,72 @@
+import { DayPeriod, TextTimeLanguage } from "./types";
+import { english } from "./en";
+import { german } from "./de";
+import { french } from "./fr";
+import { spanish } from "./es";
+import { dutch } from "./nl";
+
+export type { DayPeriod, TextTimeLanguage } from "./types";
+
+// keyed by language subtag so the HA language can pick one directly
+export const TEXT_TIME_LANGUAGES = {
+  en: english,
+  de: german,
+  fr: french,
+  es: spanish,
+  nl: dutch,
+} satisfies Record<string, TextTimeLanguage>;
+
+export type TextTimeLanguageKey = keyof typeof TEXT_TIME_LANGUAGES;
+
+export type TextTimeRounding = "exact" | "five" | "quarter" | "fuzzy";
+
+export interface TextTimeOptions {
+  rounding?: TextTimeRounding;
+  sentence?: boolean; // "it's quarter past three" rather than "quarter past three"
+}
+
+/** The rules for a BCP 47 locale, English when there are none for its language. */
+export function textTimeLanguageFor(locale: string | undefined): TextTimeLanguageKey {
+  const lang = (locale || "").split("-")[0].toLowerCase();
+  return lang in TEXT_TIME_LANGUAGES ? (lang as TextTimeLanguageKey) : "en";
+}
+
+/** `hour` / `minute` rounded to the nearest `step` minutes, carrying into the next hour (23:58 -> 0:00). */
+export function roundTime(hour: number, minute: number, step: number): { hour: number; minute: number } {
+  const total = Math.round((hour * 60 + minute) / step) * step;
+  return { hour: Math.floor(total / 60) % 24, minute: total % 60 };
+}
+
+/** The part of the day `hour` (0-23) falls in. */
+export function dayPeriod(hour: number): DayPeriod {
+  if (hour >= 23 || hour < 5) return "night";
+  if (hour < 7) return "early-morning";
+  if (hour < 10) return "morning";
+  if (hour < 12) return "late-morning";
+  if (hour < 13) return "noon";
+  if (hour < 15) return "early-afternoon";
+  if (hour < 17) return "afternoon";
+  if (hour < 18) return "late-afternoon";
+  if (hour < 21) return "evening";
+  return "late-evening";
+}
+
+const STEPS: Record<Exclude<TextTimeRounding, "fuzzy">, number> = { exact: 1, five: 5, quarter: 15 };
+
+/** A wall-clock time in words, e.g. "fünf nach halb vier" for 15:35 in German. */
+export function timeInWords(
+  language: TextTimeLanguage,
+  hour: number,
+  minute: number,
+  { rounding = "exact", sentence = false }: TextTimeOptions = {}
+): string {
+  const fuzzy = rounding === "fuzzy";
+  let text: string;
+  if (fuzzy) {
+    text = language.periods[dayPeriod(hour)];
+  } else {
+    const rounded = roundTime(hour, minute, STEPS[rounding]);
+    text = language.time(rounded.hour, rounded.minute);
+  }
+  return sentence ? language.sentence(text, fuzzy) : text;
+}
@@ -0,0 +1,57 @@
+import { TextTimeLanguage } from "./types";
+
+const HOURS = ["twaalf", "een", "twee", "drie", "vier", "vijf", "zes", "zeven", "acht", "negen", "tien", "elf"];
+const NUMBERS = [
+  "",
+  "één",
+  "twee",
+  "drie",
+  "vier",
+  "vijf",
+  "zes",
+  "zeven",
+  "acht",
+  "negen",
+  "tien",
+  "elf",
+  "twaalf",
+  "dertien",
+  "veertien",
+  "vijftien",
+];
+
+// "vijf", "één minuut", "drie minuten"; never more than fourteen here
+function minutes(n: number): string {
+  if (n % 5 === 0) return NUMBERS[n];
+  return n === 1 ? "één minuut" : `${NUMBERS[n]} minuten`;
+}
+
+// from a quarter past, minutes count around the half hour: "tien voor half vier" is 3:20
+export const dutch: TextTimeLanguage = {
+  label: "Nederlands",
+  time(hour, minute) {
+    const h = HOURS[hour % 12];
+    const next = HOURS[(hour + 1) % 12];
+    if (minute === 0) return `${h} uur`;
+    if (minute === 15) return `kwart over ${h}`;
+    if (minute === 30) return `half ${next}`;
+    if (minute === 45) return `kwart voor ${next}`;
+    if (minute < 15) return `${minutes(minute)} over ${h}`;
+    if (minute < 30) return `${minutes(30 - minute)} voor half ${next}`;
+    if (minute < 45) return `${minutes(minute - 30)} over half ${next}`;
+    return `${minutes(60 - minute)} voor ${next}`;
+  },
+  periods: {
+    night: "nacht",
+    "early-morning": "vroeg in de ochtend",
+    morning: "ochtend",
+    "late-morning": "laat in de ochtend",
+    noon: "rond het middaguur",
+    "early-afternoon": "vroeg in de middag",
+    afternoon: "middag",
+    "late-afternoon": "laat in de middag",
+    evening: "avond",
+    "late-evening": "laat in de avond",
+  },
+  sentence: (text) => `het is ${text}`,
+};
@@ -0,0 +1,23 @@
+// Rules for telling the time in words in one language. `time` gets the
+// already-rounded wall-clock time and has to cope with any minute; the
+// fuzzy mode only needs a name for each part of the day.
+export type DayPeriod =
+  | "night"
+  | "early-morning"
+  | "morning"
+  | "late-morning"
+  | "noon"
+  | "early-afternoon"
+  | "afternoon"
+  | "late-afternoon"
+  | "evening"
+  | "late-evening";
+
+export interface TextTimeLanguage {
+  label: string;
+  /** The time in words, e.g. "quarter past three", for `hour` 0-23 and `minute` 0-59. */
+  time(hour: number, minute: number): string;
+  periods: Record<DayPeriod, string>;
+  /** `text` as a full sentence: "it's quarter past three", "il est midi". */
+  sentence(text: string, fuzzy: boolean): string;
+}
@@ -0,0 +1,206 @@
+// Wall-clock values for an instant in a given IANA timezone. Never read
+// getDate()/getHours()/getDay() for display, they return the browser's zone.
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday, matches Date.getDay()
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedFormatter(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone || "";
+  let fmt = zonedFormatters.get(key);
+  if (fmt) return fmt;
+  const opts: Intl.DateTimeFormatOptions = {
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    weekday: "short",
+    hourCycle: "h23",
+  };
+  try {
+    fmt = new Intl.DateTimeFormat("en-US", { ...opts, timeZone });
+  } catch {
+    // unknown timezone (or "user-settings" leaking through), use the system zone
+    fmt = new Intl.DateTimeFormat("en-US", opts);
+  }
+  zonedFormatters.set(key, fmt);
+  return fmt;
+}
+
+/** Gregorian date & time fields of `date` as seen in `timeZone`. */
+export function getZonedParts(date: Date, timeZone?: string): ZonedParts {
+  const out: ZonedParts = { year: 0, month: 1, day: 1, hour: 0, minute: 0, second: 0, weekday: 0 };
+  for (const p of zonedFormatter(timeZone).formatToParts(date)) {
+    switch (p.type) {
+      case "weekday":
+        out.weekday = WEEKDAYS.indexOf(p.value);
+        break;
+      case "year":
+      case "month":
+      case "day":
+      case "minute":
+      case "second":
+        out[p.type] = parseInt(p.value, 10);
+        break;
+      case "hour":
+        // some engines still emit "24" at midnight
+        out.hour = parseInt(p.value, 10) % 24;
+        break;
+    }
+  }
+  return out;
+}
+
+/** Minutes east of UTC for `timeZone` at `date` (e.g. 330 for Asia/Kolkata). */
+export function getTimezoneOffset(date: Date, timeZone?: string): number {
+  const z = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(z.year, z.month - 1, z.day, z.hour, z.minute, z.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / 60_000);
+}
+
+/**
+ * The instant a wall-clock time in `timeZone` refers to, e.g. 2025-10-23 07:30
+ * in Europe/Berlin. Times skipped by a DST change resolve to the later offset.
+ */
+export function zonedTimeToDate(
+  parts: Pick<ZonedParts, "year" | "month" | "day"> & Partial<Pick<ZonedParts, "hour" | "minute" | "second">>,
+  timeZone?: string
+): Date {
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour || 0, parts.minute || 0, parts.second || 0);
+  // the offset at the guess may differ from the offset at the answer near a DST change, settle it twice
+  let guess = asUtc - getTimezoneOffset(new Date(asUtc), timeZone) * 60_000;
+  guess = asUtc - getTimezoneOffset(new Date(guess), timeZone) * 60_000;
+  return new Date(guess);
+}
+
+/** e.g. GMT+05:45, GMT-03:30, GMT+00:00 */
+export function formatGmtOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  const hh = String(Math.floor(abs / 60)).padStart(2, "0");
+  const mm = String(abs % 60).padStart(2, "0");
+  return `GMT${sign}${hh}:${mm}`;
+}
+
+// Renamed IANA zones, legacy -> current. Engines disagree on which spelling
+// they accept and list (V8 still lists Asia/Calcutta, others Asia/Kolkata),
+// so both directions are tried when resolving a saved value.
+export const TIMEZONE_ALIASES: Record<string, string> = {
+  "Asia/Calcutta": "Asia/Kolkata",
+  "Asia/Katmandu": "Asia/Kathmandu",
+  "Asia/Saigon": "Asia/Ho_Chi_Minh",
+  "Asia/Rangoon": "Asia/Yangon",
+  "Asia/Dacca": "Asia/Dhaka",
+  "Asia/Thimbu": "Asia/Thimphu",
+  "Asia/Ulan_Bator": "Asia/Ulaanbaatar",
+  "Asia/Choibalsan": "Asia/Ulaanbaatar",
+  "Europe/Kiev": "Europe/Kyiv",
+  "Europe/Uzhgorod": "Europe/Kyiv",
+  "Europe/Zaporozhye": "Europe/Kyiv",
+  "America/Buenos_Aires": "America/Argentina/Buenos_Aires",
+  "America/Catamarca": "America/Argentina/Catamarca",
+  "America/Cordoba": "America/Argentina/Cordoba",
+  "America/Jujuy": "America/Argentina/Jujuy",
+  "America/Mendoza": "America/Argentina/Mendoza",
+  "America/Indianapolis": "America/Indiana/Indianapolis",
+  "America/Louisville": "America/Kentucky/Louisville",
+  "America/Godthab": "America/Nuuk",
+  "America/Yellowknife": "America/Edmonton",
+  "America/Coral_Harbour": "America/Atikokan",
+  "Atlantic/Faeroe": "Atlantic/Faroe",
+  "Pacific/Enderbury": "Pacific/Kanton",
+  "Pacific/Truk": "Pacific/Chuuk",
+  "Pacific/Ponape": "Pacific/Pohnpei",
+  "Africa/Asmera": "Africa/Asmara",
+};
+
+const LEGACY_BY_CURRENT: Record<string, string> = Object.fromEntries(
+  Object.entries(TIMEZONE_ALIASES).map(([legacy, current]) => [current, legacy])
+);
+
+/**
+ * Resolves a saved timezone value (current or legacy spelling) to the id the
+ * running engine uses, or undefined when the engine knows neither.
+ */
+export function resolveTimezoneId(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  for (const candidate of [value, TIMEZONE_ALIASES[value], LEGACY_BY_CURRENT[value]]) {
+    if (!candidate) continue;
+    try {
+      return new Intl.DateTimeFormat("en-US", { timeZone: candidate }).resolvedOptions().timeZone;
+    } catch {
+      // not known to this engine, try the next spelling
+    }
+  }
+  return undefined;
+}
+
+/** Short place name for a zone id, e.g. "Buenos Aires" for America/Argentina/Buenos_Aires. */
+export function timezoneCity(timeZone: string): string {
+  const display = TIMEZONE_ALIASES[timeZone] || timeZone;
+  return (display.split("/").pop() || display).replace(/_/g, " ");
+}
+
+export interface TimezoneOption {
+  label: string;
+  value: string;
+  region?: string; // first IANA segment, e.g. "Europe"
+  city?: string; // display name, e.g. "Buenos Aires"
+  offset?: number; // minutes east of UTC when the list was generated
+}
+
+type SupportedValuesOf = (key: "timeZone") => string[];
+
+/** Every timezone the engine can list, or `fallback` on engines without Intl.supportedValuesOf. */
+export function listTimezones(fallback: string[]): string[] {
+  const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: SupportedValuesOf }).supportedValuesOf;
+  try {
+    if (supportedValuesOf) return supportedValuesOf("timeZone");
+  } catch {
+    // fall through to the static list
+  }
+  return fallback;
+}
+
+/**
+ * Timezone select options labelled with the offset in effect at `date`,
+ * sorted by offset then grouped by region, e.g. "(GMT+10:00) Australia / Sydney".
+ */
+export function buildTimezoneOptions(zones: string[], date: Date = new Date()): TimezoneOption[] {
+  const seen = new Set<string>();
+  const options: TimezoneOption[] = [];
+  // zones come from the engine itself (or a list of long-standing ids), no need to resolve each one
+  for (const value of zones.includes("UTC") ? zones : [...zones, "UTC"]) {
+    if (value.startsWith("Etc/")) continue;
+    // label with the current spelling even when the engine reports a legacy id,
+    // links that now point at the same zone (Yellowknife -> Edmonton) collapse
+    const display = TIMEZONE_ALIASES[value] || value;
+    if (seen.has(display)) continue;
+    seen.add(display);
+    const [region, ...rest] = display.split("/");
+    const city = (rest.length ? rest.join(" / ") : region).replace(/_/g, " ");
+    const offset = getTimezoneOffset(date, value);
+    const label = rest.length
+      ? `(${formatGmtOffset(offset)}) ${region} / ${city}`
+      : `(${formatGmtOffset(offset)}) ${city}`;
+    options.push({ label, value, region: rest.length ? region : undefined, city, offset });
+  }
+  return options.sort(
+    (a, b) =>
+      (a.offset ?? 0) - (b.offset ?? 0) ||
+      (a.region || "").localeCompare(b.region || "") ||
+      (a.city || "").localeCompare(b.city || "")
+  );
+}
@@ -0,0 +1,66 @@
+import { WordClockLanguage } from "./types";
+
+const HOURS = ["ZWÖLF", "EINS", "ZWEI", "DREI", "VIER", "FÜNF", "SECHS", "SIEBEN", "ACHT", "NEUN", "ZEHN", "ELF"];
+// from twenty-five past the hour is named after the next one ("fünf vor halb vier")
+const STEPS: [minutes: string[], nextHour: boolean][] = [
+  [[], false],
+  [["FÜNF_M", "NACH"], false],
+  [["ZEHN_M", "NACH"], false],
+  [["VIERTEL", "NACH"], false],
+  [["ZWANZIG", "NACH"], false],
+  [["FÜNF_M", "VOR", "HALB"], true],
+  [["HALB"], true],
+  [["FÜNF_M", "NACH", "HALB"], true],
+  [["ZWANZIG", "VOR"], true],
+  [["VIERTEL", "VOR"], true],
+  [["ZEHN_M", "VOR"], true],
+  [["FÜNF_M", "VOR"], true],
+];
+
+export const german: WordClockLanguage = {
+  label: "Deutsch",
+  rows: [
+    "ESKISTAFÜNF",
+    "ZEHNZWANZIG",
+    "DREIVIERTEL",
+    "VORFUNKNACH",
+    "HALBAELFÜNF",
+    "EINSXAMZWEI",
+    "DREIPMJVIER",
+    "SECHSNLACHT",
+    "SIEBENZWÖLF",
+    "ZEHNEUNKUHR",
+  ],
+  words: {
+    ES: [0, 0, 2],
+    IST: [0, 3, 3],
+    FÜNF_M: [0, 7, 4],
+    ZEHN_M: [1, 0, 4],
+    ZWANZIG: [1, 4, 7],
+    VIERTEL: [2, 4, 7],
+    VOR: [3, 0, 3],
+    NACH: [3, 7, 4],
+    HALB: [4, 0, 4],
+    ELF: [4, 5, 3],
+    FÜNF: [4, 7, 4],
+    EIN: [5, 0, 3],
+    EINS: [5, 0, 4],
+    ZWEI: [5, 7, 4],
+    DREI: [6, 0, 4],
+    VIER: [6, 7, 4],
+    SECHS: [7, 0, 5],
+    ACHT: [7, 7, 4],
+    SIEBEN: [8, 0, 6],
+    ZWÖLF: [8, 6, 5],
+    ZEHN: [9, 0, 4],
+    NEUN: [9, 3, 4],
+    UHR: [9, 8, 3],
+  },
+  phrase(hour, step) {
+    const [minutes, nextHour] = STEPS[step];
+    const h = (hour + (nextHour ? 1 : 0)) % 12;
+    // "ein Uhr", but "fünf nach eins"
+    if (step === 0) return ["ES", "IST", h === 1 ? "EIN" : HOURS[h], "UHR"];
+    return ["ES", "IST", ...minutes, HOURS[h]];
+  },
+};
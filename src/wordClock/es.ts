@@ -0,0 +1,58 @@
+import { WordClockLanguage } from "./types";
+
+const HOURS = ["DOCE", "UNA", "DOS", "TRES", "CUATRO", "CINCO", "SEIS", "SIETE", "OCHO", "NUEVE", "DIEZ", "ONCE"];
+// minute words for steps 1-6 after the hour, then 7-11 before the next one
+const AFTER = [[], ["Y", "CINCO_M"], ["Y", "DIEZ_M"], ["Y", "CUARTO"], ["Y", "VEINTE"], ["Y", "VEINTICINCO"], ["Y", "MEDIA"]];
+const BEFORE = [[], ["MENOS", "CINCO_M"], ["MENOS", "DIEZ_M"], ["MENOS", "CUARTO"], ["MENOS", "VEINTE"], ["MENOS", "VEINTICINCO"]];
+
+// "es la una", "son las dos"
+function hourWords(hour: number): string[] {
+  const h = hour % 12;
+  return h === 1 ? ["ES", "LA", HOURS[h]] : ["SON", "LAS", HOURS[h]];
+}
+
+export const spanish: WordClockLanguage = {
+  label: "Español",
+  rows: [
+    "ESONELASUNA",
+    "DOSITRESORE",
+    "CUATROCINCO",
+    "SEISASIETEN",
+    "OCHONUEVEYO",
+    "LADIEZSONCE",
+    "DOCELYMENOS",
+    "OVEINTEDIEZ",
+    "VEINTICINCO",
+    "MEDIACUARTO",
+  ],
+  words: {
+    ES: [0, 0, 2],
+    SON: [0, 1, 3],
+    LA: [0, 5, 2],
+    LAS: [0, 5, 3],
+    UNA: [0, 8, 3],
+    DOS: [1, 0, 3],
+    TRES: [1, 4, 4],
+    CUATRO: [2, 0, 6],
+    CINCO: [2, 6, 5],
+    SEIS: [3, 0, 4],
+    SIETE: [3, 5, 5],
+    OCHO: [4, 0, 4],
+    NUEVE: [4, 4, 5],
+    DIEZ: [5, 2, 4],
+    ONCE: [5, 7, 4],
+    DOCE: [6, 0, 4],
+    Y: [6, 5, 1],
+    MENOS: [6, 6, 5],
+    VEINTE: [7, 1, 6],
+    DIEZ_M: [7, 7, 4],
+    VEINTICINCO: [8, 0, 11],
+    CINCO_M: [8, 6, 5],
+    MEDIA: [9, 0, 5],
+    CUARTO: [9, 5, 6],
+  },
+  phrase(hour, step) {
+    if (step <= 6) return [...hourWords(hour), ...AFTER[step]];
+    return [...hourWords(hour + 1), ...BEFORE[12 - step]];
+  },
+};
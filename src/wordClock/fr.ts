@@ -0,0 +1,65 @@
+import { WordClockLanguage } from "./types";
+
+// 0 and 12 are MINUIT / MIDI, the rest count 1-11 on both halves of the day
+const HOURS = ["MINUIT", "UNE", "DEUX", "TROIS", "QUATRE", "CINQ", "SIX", "SEPT", "HUIT", "NEUF", "DIX", "ONZE", "MIDI"];
+// minute words for steps 1-6 after the hour, then 7-11 before the next one
+const AFTER = [[], ["CINQ_M"], ["DIX_M"], ["ET", "QUART"], ["VINGT"], ["VINGT", "DASH", "CINQ_M"], ["ET_2", "DEMIE"]];
+const BEFORE = [[], ["MOINS", "CINQ_M"], ["MOINS", "DIX_M"], ["MOINS", "LE", "QUART"], ["MOINS", "VINGT"], ["MOINS", "VINGT", "DASH", "CINQ_M"]];
+
+function hourWords(hour: number): string[] {
+  const h = hour % 24 === 12 ? 12 : hour % 12;
+  if (h === 0 || h === 12) return [HOURS[h]];
+  return [HOURS[h], h === 1 ? "HEURE" : "HEURES"];
+}
+
+export const french: WordClockLanguage = {
+  label: "Français",
+  rows: [
+    "ILNESTODEUX",
+    "QUATRETROIS",
+    "NEUFUNESEPT",
+    "HUITSIXCINQ",
+    "MIDIXMINUIT",
+    "ONZERHEURES",
+    "MOINSOLEDIX",
+    "ETRQUARTPMD",
+    "VINGT-CINQU",
+    "ETSDEMIEPAM",
+  ],
+  words: {
+    IL: [0, 0, 2],
+    EST: [0, 3, 3],
+    DEUX: [0, 7, 4],
+    QUATRE: [1, 0, 6],
+    TROIS: [1, 6, 5],
+    NEUF: [2, 0, 4],
+    UNE: [2, 4, 3],
+    SEPT: [2, 7, 4],
+    HUIT: [3, 0, 4],
+    SIX: [3, 4, 3],
+    CINQ: [3, 7, 4],
+    MIDI: [4, 0, 4],
+    DIX: [4, 2, 3],
+    MINUIT: [4, 5, 6],
+    ONZE: [5, 0, 4],
+    HEURE: [5, 5, 5],
+    HEURES: [5, 5, 6],
+    MOINS: [6, 0, 5],
+    LE: [6, 6, 2],
+    DIX_M: [6, 8, 3],
+    ET: [7, 0, 2],
+    QUART: [7, 3, 5],
+    VINGT: [8, 0, 5],
+    DASH: [8, 5, 1],
+    CINQ_M: [8, 6, 4],
+    ET_2: [9, 0, 2],
+    DEMI: [9, 3, 4],
+    DEMIE: [9, 3, 5],
+  },
+  phrase(hour, step) {
+    // MIDI and MINUIT are masculine: "et demi", the other hours take "et demie"
+    if (step === 6 && hour % 12 === 0) return ["IL", "EST", ...hourWords(hour), "ET_2", "DEMI"];
+    if (step <= 6) return ["IL", "EST", ...hourWords(hour), ...AFTER[step]];
+    return ["IL", "EST", ...hourWords(hour + 1), ...BEFORE[12 - step]];
+  },
+};
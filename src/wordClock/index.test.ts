@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { wordClockCells, WORD_CLOCK_LANGUAGES, WordClockLanguageKey } from ".";
+
+const LANGUAGE_KEYS = Object.keys(WORD_CLOCK_LANGUAGES) as WordClockLanguageKey[];
+
+// the lit letters read row by row, words separated by the unlit gaps
+function litText(key: WordClockLanguageKey, hour: number, minute: number): string {
+  const { rows } = WORD_CLOCK_LANGUAGES[key];
+  const { lit } = wordClockCells(WORD_CLOCK_LANGUAGES[key], hour, minute);
+  return rows
+    .map((row, r) => Array.from(row, (char, c) => (lit[r][c] ? char : " ")).join(""))
+    .join(" ")
+    .trim()
+    .split(/\s+/)
+    .join(" ");
+}
+
+describe.each(LANGUAGE_KEYS)("word grid (%s)", (key) => {
+  const language = WORD_CLOCK_LANGUAGES[key];
+
+  it("places every word where the grid spells it", () => {
+    for (const [key, [row, col, length]] of Object.entries(language.words)) {
+      // a suffix tells repeated words apart (DIX / DIX_M)
+      const word = key.split("_")[0];
+      expect(language.rows[row].slice(col, col + length), key).toBe(word === "DASH" ? "-" : word);
+    }
+  });
+
+  it("lights a phrase for every five minutes of the day", () => {
+    for (let hour = 0; hour < 24; hour++) {
+      for (let minute = 0; minute < 60; minute += 5) {
+        expect(() => wordClockCells(language, hour, minute)).not.toThrow();
+      }
+    }
+  });
+});
+
+describe("French word grid", () => {
+  it("says et demi after midi and minuit, et demie after the hours", () => {
+    expect(litText("fr", 12, 30)).toBe("IL EST MIDI ET DEMI");
+    expect(litText("fr", 0, 30)).toBe("IL EST MINUIT ET DEMI");
+    expect(litText("fr", 15, 30)).toBe("IL EST TROIS HEURES ET DEMIE");
+  });
+});
@@ -0,0 +1,43 @@
+import { WordClockLanguage } from "./types";
+import { english } from "./en";
+import { german } from "./de";
+import { dutch } from "./nl";
+import { french } from "./fr";
+import { spanish } from "./es";
+
+export type { WordClockLanguage, WordPosition } from "./types";
+
+// keyed by language subtag so the HA language can pick one directly
+export const WORD_CLOCK_LANGUAGES = {
+  en: english,
+  de: german,
+  nl: dutch,
+  fr: french,
+  es: spanish,
+} satisfies Record<string, WordClockLanguage>;
+
+export type WordClockLanguageKey = keyof typeof WORD_CLOCK_LANGUAGES;
+
+/** The grid for a BCP 47 locale, English when there's none for its language. */
+export function wordClockLanguageFor(locale: string | undefined): WordClockLanguageKey {
+  const lang = (locale || "").split("-")[0].toLowerCase();
+  return lang in WORD_CLOCK_LANGUAGES ? (lang as WordClockLanguageKey) : "en";
+}
+
+/**
+ * Which letters to light for a wall-clock time: one boolean per grid cell,
+ * rounded down to the five minutes, plus the 0-4 minutes since then for the
+ * corner dots.
+ */
+export function wordClockCells(
+  language: WordClockLanguage,
+  hour: number,
+  minute: number
+): { lit: boolean[][]; dots: number } {
+  const lit = language.rows.map((row) => Array.from(row, () => false));
+  for (const key of language.phrase(hour, Math.floor(minute / 5))) {
+    const [row, col, length] = language.words[key];
+    for (let i = col; i < col + length; i++) lit[row][i] = true;
+  }
+  return { lit, dots: minute % 5 };
+}
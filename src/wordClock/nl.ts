@@ -0,0 +1,66 @@
+import { WordClockLanguage } from "./types";
+
+const HOURS = ["TWAALF", "EEN", "TWEE", "DRIE", "VIER", "VIJF", "ZES", "ZEVEN", "ACHT", "NEGEN", "TIEN", "ELF"];
+// from twenty past the hour is named after the next one ("tien voor half vier");
+// OVER / VOOR appear twice so the words always read top to bottom
+const STEPS: [minutes: string[], nextHour: boolean][] = [
+  [[], false],
+  [["VIJF_M", "OVER"], false],
+  [["TIEN_M", "OVER"], false],
+  [["KWART", "OVER_2"], false],
+  [["TIEN_M", "VOOR", "HALF"], true],
+  [["VIJF_M", "VOOR", "HALF"], true],
+  [["HALF"], true],
+  [["VIJF_M", "OVER", "HALF"], true],
+  [["TIEN_M", "OVER", "HALF"], true],
+  [["KWART", "VOOR_2"], true],
+  [["TIEN_M", "VOOR"], true],
+  [["VIJF_M", "VOOR"], true],
+];
+
+export const dutch: WordClockLanguage = {
+  label: "Nederlands",
+  rows: [
+    "HETKISAVIJF",
+    "TIENBTZVOOR",
+    "OVERMEKWART",
+    "HALFSPWOVER",
+    "VOORTHGEENS",
+    "TWEEAMCDRIE",
+    "VIERVIJFZES",
+    "ZEVENONEGEN",
+    "ACHTTIENELF",
+    "TWAALFPMUUR",
+  ],
+  words: {
+    HET: [0, 0, 3],
+    IS: [0, 4, 2],
+    VIJF_M: [0, 7, 4],
+    TIEN_M: [1, 0, 4],
+    VOOR: [1, 7, 4],
+    OVER: [2, 0, 4],
+    KWART: [2, 6, 5],
+    HALF: [3, 0, 4],
+    OVER_2: [3, 7, 4],
+    VOOR_2: [4, 0, 4],
+    EEN: [4, 7, 3],
+    TWEE: [5, 0, 4],
+    DRIE: [5, 7, 4],
+    VIER: [6, 0, 4],
+    VIJF: [6, 4, 4],
+    ZES: [6, 8, 3],
+    ZEVEN: [7, 0, 5],
+    NEGEN: [7, 6, 5],
+    ACHT: [8, 0, 4],
+    TIEN: [8, 4, 4],
+    ELF: [8, 8, 3],
+    TWAALF: [9, 0, 6],
+    UUR: [9, 8, 3],
+  },
+  phrase(hour, step) {
+    const [minutes, nextHour] = STEPS[step];
+    const h = HOURS[(hour + (nextHour ? 1 : 0)) % 12];
+    if (step === 0) return ["HET", "IS", h, "UUR"];
+    return ["HET", "IS", ...minutes, h];
+  },
+};
@@ -0,0 +1,12 @@
+// A letter grid plus the rule that picks which of its words spell a time.
+// Word positions are [row, column, length]; a word may appear twice on a
+// grid (German FÜNF for minutes and hours), so keys are free-form.
+export type WordPosition = readonly [row: number, col: number, length: number];
+
+export interface WordClockLanguage {
+  label: string;
+  rows: readonly string[]; // all the same length
+  words: Readonly<Record<string, WordPosition>>;
+  /** Words to light for `hour` (0-23) and `step`, the five-minute block (0-11). */
+  phrase(hour: number, step: number): string[];
+}